@@ -28,6 +28,7 @@ type FPuzzlesBoard = {
     palindrome?: FPuzzlesLines[],
     renban?: FPuzzlesLines[],
     whispers?: FPuzzlesLines[],
+    regionsumline?: FPuzzlesLines[],
     difference?: FPuzzlesCells[],
     xv?: FPuzzlesCells[],
     ratio?: FPuzzlesCells[],
@@ -74,6 +75,7 @@ type FPuzzlesCells = {
 
 type FPuzzlesLines = {
     lines: string[][],
+    value?: string,
 };
 
 type FPuzzlesClone = {
@@ -132,9 +134,22 @@ export function parseFpuzzles(b64: string, createElement: boardRepr.CreateElemen
             elem.value![cellIdx] = true;
         }
     }
-    function addLineElement(type: schema.LineElement['type'], fLinesConstraint: FPuzzlesLines[]): void {
-        const elem: schema.LineElement = findOrAddElement(type, {});
+    /** Lines with a different DELTA go in separate elements. */
+    function findOrAddLineElement(type: schema.LineElement['type'], delta?: number): schema.LineElement {
+        if (null == board.elements) board.elements = {};
+        for (const elem of Object.values(board.elements)) {
+            if (type === elem.type && delta === (elem as schema.LineElement).delta) return elem as schema.LineElement;
+        }
+        const elem = createElement<schema.LineElement>(type, {});
+        if (null != delta) elem.delta = delta;
+        board.elements[boardRepr.makeUid()] = elem;
+        return elem;
+    }
+    function addLineElement(type: schema.LineElement['type'], fLinesConstraint: FPuzzlesLines[], hasDelta: boolean = false): void {
         for (const fLinesObj of fLinesConstraint) {
+            // The line's value, if any, is its minimum difference.
+            const delta = hasDelta && fLinesObj.value ? Number(fLinesObj.value) : NaN;
+            const elem = findOrAddLineElement(type, Number.isInteger(delta) && 0 < delta ? delta : undefined);
             for (const fLine of fLinesObj.lines) {
                 const cellArr: Idx<Geometry.CELL>[] = elem.value![boardRepr.makeUid()] = [];
                 for (const rc of fLine) {
@@ -263,9 +278,10 @@ export function parseFpuzzles(b64: string, createElement: boardRepr.CreateElemen
 
     if (fBoard.thermometer) addLineElement('thermo', fBoard.thermometer);
     if (fBoard.betweenline) addLineElement('between', fBoard.betweenline);
-    if (fBoard.whispers) addLineElement('whisper', fBoard.whispers);
+    if (fBoard.whispers) addLineElement('whisper', fBoard.whispers, true);
     if (fBoard.renban) addLineElement('renban', fBoard.renban);
     if (fBoard.palindrome) addLineElement('palindrome', fBoard.palindrome);
+    if (fBoard.regionsumline) addLineElement('regionSumLine', fBoard.regionsumline);
 
     if (fBoard.arrow) {
         const elem: schema.ArrowElement = findOrAddElement('arrow', {});
@@ -279,6 +295,8 @@ export function parseFpuzzles(b64: string, createElement: boardRepr.CreateElemen
                     const cellIdx = cellCoord2CellIdx(parseRCNotation(rc), grid);
                     arrowItem.bulb.push(cellIdx);
                 }
+                // Multi-cell bulbs in f-puzzles are pills, read left-to-right or top-to-bottom.
+                arrowItem.bulb.sort((a, b) => a - b);
                 for (const rc of fLine) {
                     const cellIdx = cellCoord2CellIdx(parseRCNotation(rc), grid);
                     arrowItem.body.push(cellIdx);
@@ -291,9 +309,14 @@ export function parseFpuzzles(b64: string, createElement: boardRepr.CreateElemen
 
     if (fBoard.killercage) addKillerElement(fBoard.killercage);
     if (fBoard.extraregion) {
-        // TODO: this uses killer cages for now.
-        console.warn('Extra region import uses killer cage.');
-        addKillerElement(fBoard.extraregion);
+        const elem: schema.ExtraRegionElement = findOrAddElement('extraRegion', {});
+        for (const fRegionEntry of fBoard.extraregion) {
+            const regionCells: IdxBitset<Geometry.CELL> = elem.value![boardRepr.makeUid()] = {};
+            for (const rc of fRegionEntry.cells) {
+                const cellIdx = cellCoord2CellIdx(parseRCNotation(rc), grid);
+                regionCells[cellIdx] = true;
+            }
+        }
     }
 
     if (fBoard.littlekillersum) {
@@ -379,8 +402,14 @@ export function parseFpuzzles(b64: string, createElement: boardRepr.CreateElemen
     }
 
     if (fBoard.negative) {
-        // TODO
-        console.error(`Cannot handle f-puzzles negative constraints: ${fBoard.negative.join(', ')}.`);
+        for (const fType of fBoard.negative) {
+            if ('difference' === fType || 'ratio' === fType || 'xv' === fType) {
+                findOrAddElement<schema.EdgeNumberElement>(fType, {}).negative = true;
+            }
+            else {
+                console.error(`Cannot handle f-puzzles negative constraint: ${fType}.`);
+            }
+        }
     }
 
     return board;
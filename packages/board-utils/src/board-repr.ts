@@ -1,4 +1,4 @@
-import { schema, ArrayObj, IdxBitset, Geometry } from "@sudoku-studio/schema";
+import { schema, ArrayObj, IdxBitset, Geometry, SubGrid } from "@sudoku-studio/schema";
 
 export function makeUid(): string {
     return `${(31 * Math.floor(0xFFFFFFFF * Math.random()) + Date.now()) % 0xFFFFFFFF}`;
@@ -6,31 +6,41 @@ export function makeUid(): string {
 
 export type CreateElementFn = <E extends schema.Element>(type: E['type'], value?: E['value']) => E;
 
-function defaultRegions(size: number = 9, boxWidth: number = 3, boxHeight: number = 3): ArrayObj<IdxBitset<Geometry.CELL>> {
-
-    const regions: ArrayObj<IdxBitset<Geometry.CELL>> = {};
-    for (let i = 0; i < size; i++) {
-        regions[i] = {};
-    }
-
-    for (let y = 0; y < size; y++) {
-        for (let x = 0; x < size; x++) {
-            const cellIdx = y * size + x;
-            const by = Math.floor(y / boxHeight );
-            const bx = Math.floor(x / boxWidth );
-            regions[by * boxHeight + bx][cellIdx] = true;
+function defaultRegions(width: number, subGrids: SubGrid[], boxWidth: number = 3, boxHeight: number = 3): ArrayObj<IdxBitset<Geometry.CELL>> {
+    // Boxes by their top left cell, so boxes shared by overlapping sub-grids are only added once.
+    const boxes = new Map<number, IdxBitset<Geometry.CELL>>();
+    for (const sub of subGrids) {
+        for (let y = 0; y < sub.height; y++) {
+            for (let x = 0; x < sub.width; x++) {
+                const cellIdx = (sub.y + y) * width + sub.x + x;
+                const boxIdx = (sub.y + y - y % boxHeight) * width + sub.x + x - x % boxWidth;
+                if (!boxes.has(boxIdx)) boxes.set(boxIdx, {});
+                boxes.get(boxIdx)![cellIdx] = true;
+            }
         }
     }
+
+    const regions: ArrayObj<IdxBitset<Geometry.CELL>> = {};
+    [ ...boxes.values() ].forEach((box, i) => regions[i] = box);
     return regions;
 }
 
-export function createNewBoard(createElement: CreateElementFn, boxWidth: number = 3, boxHeight: number = 3): schema.Board {
+/**
+ * Creates an empty board. If SUB_GRID_COORDS is given, creates a multi-grid layout with a sub-grid at each
+ * top left cell, and inactive cells in between.
+ */
+export function createNewBoard(createElement: CreateElementFn, boxWidth: number = 3, boxHeight: number = 3,
+    subGridCoords?: readonly (readonly [ number, number ])[]): schema.Board
+{
     const size = boxWidth * boxHeight;
+    const subGrids: SubGrid[] = (subGridCoords || [ [ 0, 0 ] ]).map(([ x, y ]) => ({ x, y, width: size, height: size }));
+    const width = Math.max(...subGrids.map(({ x }) => x + size));
+    const height = Math.max(...subGrids.map(({ y }) => y + size));
 
     const board: schema.Board = {
         grid: {
-            width: size,
-            height: size,
+            width,
+            height,
         },
         meta: {
             title: null,
@@ -40,9 +50,13 @@ export function createNewBoard(createElement: CreateElementFn, boxWidth: number
         elements: {}
     };
 
+    if (null != subGridCoords) {
+        board.grid.subGrids = { ...subGrids };
+    }
+
     board.elements['1'] = createElement<schema.GridElement>('grid');
     board.elements['2'] = createElement<schema.GridRegionElement>('gridRegion',
-        defaultRegions(size, boxWidth, boxHeight)
+        defaultRegions(width, subGrids, boxWidth, boxHeight)
     );
     board.elements['10'] = createElement<schema.DigitElement>('givens', {});
     board.elements['11'] = createElement<schema.DigitElement>('filled', {});
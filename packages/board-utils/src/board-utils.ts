@@ -1,7 +1,66 @@
-import type { Grid, Idx, Coord, Geometry, ArrayObj, IdxMap, schema, IdxBitset } from "@sudoku-studio/schema";
+import type { Grid, Idx, Coord, Geometry, ArrayObj, IdxMap, schema, IdxBitset, SubGrid } from "@sudoku-studio/schema";
 
 export * as boardRepr from "./board-repr";
 
+/**
+ * Returns the digits used by BOARD, from `meta.digits`. Defaults to 1 to the longer side of the grid, without blanks.
+ */
+export function getDigitSet({ grid, meta }: Pick<schema.Board, 'grid' | 'meta'>): Required<schema.DigitSet> {
+    const digits: Partial<schema.DigitSet> = meta?.digits || {};
+    const min = Number.isInteger(digits.min) ? digits.min! : 1;
+    const size = Math.max(...getSubGrids(grid).map(({ width, height }) => Math.max(width, height)));
+    const max = Number.isInteger(digits.max) && min <= digits.max! ? digits.max! : min + size - 1;
+    return { min, max, blanks: !!digits.blanks };
+}
+
+/**
+ * Returns the number of distinct digits (not counting blanks) used by BOARD.
+ */
+export function getNumDigits(board: Pick<schema.Board, 'grid' | 'meta'>): number {
+    const { min, max } = getDigitSet(board);
+    return max - min + 1;
+}
+
+/**
+ * Returns the minimum difference for a whisper or lockout ELEMENT, defaulting to 5 for German
+ * whispers and 4 for Dutch whispers and lockout lines when there are NUM_DIGITS = 9 digits.
+ */
+export function getLineDelta({ type, delta }: Pick<schema.LineElement, 'type' | 'delta'>, numDigits: number): number {
+    if (Number.isInteger(delta) && 0 < delta!) return delta!;
+    const half = (numDigits + 1) >> 1;
+    return 'whisper' === type ? half : half - 1;
+}
+
+/**
+ * Returns the weight of each cell in an arrow bulb of length BULB_LENGTH. Bulbs are pills read as a base 10
+ * number from the first cell unless PILL is false, then the bulb digits are summed.
+ */
+export function getArrowBulbWeights(bulbLength: number, pill?: boolean): number[] {
+    return Array.from({ length: bulbLength }, (_, i) => false !== pill ? 10 ** (bulbLength - 1 - i) : 1);
+}
+
+/**
+ * For entropic, modular and parity lines, returns how many consecutive cells along the line must all be in
+ * different classes, and the class of each digit. Returns null for other line types.
+ */
+export function getLineClasses(type: schema.LineElement['type'], { min, max }: schema.DigitSet): null | [ window: number, classOf: (digit: number) => number ] {
+    switch (type) {
+        case 'entropicLine':
+            // Low, middle and high thirds of the digits.
+            return [ 3, digit => Math.floor(3 * (digit - min) / (max - min + 1)) ];
+        case 'modularLine':
+            return [ 3, digit => ((digit % 3) + 3) % 3 ];
+        case 'parityLine':
+            return [ 2, digit => ((digit % 2) + 2) % 2 ];
+        default:
+            return null;
+    }
+}
+
+export function isDigitInSet(digit: number, { min, max }: schema.DigitSet): boolean {
+    return Number.isInteger(digit) && min <= digit && digit <= max;
+}
+
 export function solutionToString(solution: IdxMap<Geometry.CELL, number>, grid: Grid): string {
     const rows: string[] = [];
     for (let y = 0; y < grid.height; y++) {
@@ -108,6 +167,13 @@ export function edgeIdx2svgCoord(idx: Idx<Geometry.EDGE>, grid: Grid): Coord<Geo
     const [ x1, y1 ] = cellIdx2cellCoord(idx1, grid);
     return [ 0.5 * (x0 + x1 + 1), 0.5 * (y0 + y1 + 1) ];
 }
+/**
+ * Returns the edge between two cells, or null if the cells are not orthogonally adjacent.
+ */
+export function cellCoords2edgeIdx([ x0, y0 ]: Coord<Geometry.CELL>, [ x1, y1 ]: Coord<Geometry.CELL>, grid: Grid): null | Idx<Geometry.EDGE> {
+    if (1 !== Math.abs(x0 - x1) + Math.abs(y0 - y1)) return null;
+    return svgCoord2edgeIdx([ 0.5 * (x0 + x1 + 1), 0.5 * (y0 + y1 + 1) ], grid);
+}
 export function edgeIdx2cellIdxes(idx: Idx<Geometry.EDGE>, grid: Grid): [ Idx<Geometry.CELL>, Idx<Geometry.CELL> ] {
     if (1 === idx % 2) {
         const cellIdx = 0.5 * (idx - 1);
@@ -261,6 +327,37 @@ export function getColCellIdxes(col: number, { width, height }: Grid): Idx<Geome
     return Array<void>(height).fill().map((_, i) => col + i * width);
 }
 
+/**
+ * Returns the sub-grids of GRID, or the whole grid as a single sub-grid if it is not a multi-grid layout.
+ */
+export function getSubGrids(grid: Grid): SubGrid[] {
+    if (null == grid.subGrids) return [ { x: 0, y: 0, width: grid.width, height: grid.height } ];
+    return arrayObj2array(grid.subGrids);
+}
+
+/**
+ * Returns if the cell at COORD is inside any sub-grid of GRID. Inactive cells are left empty.
+ */
+export function isCellActive([ x, y ]: Coord<Geometry.CELL>, grid: Grid): boolean {
+    return getSubGrids(grid).some(sub => sub.x <= x && x < sub.x + sub.width && sub.y <= y && y < sub.y + sub.height);
+}
+
+/**
+ * Returns the rows and columns of each sub-grid of GRID.
+ */
+export function getGridHouses(grid: Grid): Idx<Geometry.CELL>[][] {
+    const houses: Idx<Geometry.CELL>[][] = [];
+    for (const { x, y, width, height } of getSubGrids(grid)) {
+        for (const [ row ] of product(height)) {
+            houses.push(Array<void>(width).fill().map((_, i) => cellCoord2CellIdx([ x + i, y + row ], grid)));
+        }
+        for (const [ col ] of product(width)) {
+            houses.push(Array<void>(height).fill().map((_, i) => cellCoord2CellIdx([ x + col, y + i ], grid)));
+        }
+    }
+    return houses;
+}
+
 export function writeRepeatingDigits(digits: IdxMap<Geometry.CELL, number>, cells: Idx<Geometry.CELL>[], output: IdxBitset<Geometry.CELL>): void {
     const seen = new Map<number, Idx<Geometry.CELL>>();
     for (const cellIdx of cells) {
@@ -296,6 +393,25 @@ export function warnSum(digits: IdxMap<Geometry.CELL, number>, cells: Idx<Geomet
     return false;
 }
 
+/**
+ * Applies the arithmetic cage operator OP to DIGITS. Difference and quotient take the largest digit and subtract or
+ * divide by the rest, so the result may be negative or fractional.
+ */
+export function evalCageOperator(op: undefined | schema.CageOperator, digits: number[]): number {
+    const rest = digits.slice();
+    const max = rest.splice(rest.indexOf(Math.max(...rest)), 1)[0];
+    switch (op) {
+        case '*':
+            return digits.reduce((product, digit) => product * digit, 1);
+        case '-':
+            return rest.reduce((difference, digit) => difference - digit, max);
+        case '/':
+            return rest.reduce((quotient, digit) => quotient / digit, max);
+        default:
+            return digits.reduce((sum, digit) => sum + digit, 0);
+    }
+}
+
 export function warnClones(digits: IdxMap<Geometry.CELL, number>, cellsA: Idx<Geometry.CELL>[], cellsB: Idx<Geometry.CELL>[], warnings: IdxBitset<Geometry.CELL>): void {
     for (let i = 0; i < cellsA.length; i++) {
         const digitA = digits[cellsA[i]];
@@ -862,6 +978,30 @@ export function* getOrthogonallyAdjacentPairs({ width, height }: Grid): Generato
     }
 }
 
+/**
+ * Yields all pairs of cells which are exactly DISTANCE cells apart by edge adjacency (Manhattan distance).
+ */
+export function* taxicabMoves(distance: number, { width, height }: Grid): Generator<[Coord<Geometry.CELL>, Coord<Geometry.CELL>], void, void> {
+    for (const [ y0, x0, y1, x1 ] of product(height, width, height, width)) {
+        if (y0 > y1 || (y0 === y1 && x0 >= x1)) continue; // Don't double-count.
+        const dy = Math.abs(y0 - y1);
+        const dx = Math.abs(x0 - x1);
+        if (distance !== dy + dx) continue;
+
+        yield [
+            [ x0, y0 ],
+            [ x1, y1 ],
+        ];
+    }
+}
+
+/** Top left cells of the 9x9 sub-grids of common multi-grid layouts. */
+export const multiGridLayouts = {
+    Twodoku: [ [ 0, 0 ], [ 6, 6 ] ],
+    Butterfly: [ [ 0, 0 ], [ 3, 0 ], [ 0, 3 ], [ 3, 3 ] ],
+    Samurai: [ [ 0, 0 ], [ 12, 0 ], [ 6, 6 ], [ 0, 12 ], [ 12, 12 ] ],
+} as const;
+
 export const gridToBoxSizeMap = {
     3:  [  3, 1 ],
     4:  [  2, 2 ],
@@ -878,3 +1018,42 @@ export const gridToBoxSizeMap = {
     15: [  5, 3 ],
     16: [  4, 4 ],
 } as const;
+
+/**
+ * Pairs up the CELLS of a line which are equidistant from its middle, as on palindromes. Returns the first half,
+ * the second half reversed so that cells at the same index are paired, and the middle cell if the length is odd.
+ */
+export function getMirroredCells<T>(cells: T[]): [ cellsA: T[], cellsB: T[], middle: undefined | T ] {
+    const cellsA = cells.slice(0, cells.length >> 1);
+    const cellsB = cells.slice(cells.length - cellsA.length).reverse();
+    return [ cellsA, cellsB, 1 === cells.length % 2 ? cells[cellsA.length] : undefined ];
+}
+
+/**
+ * Returns the regions of every gridRegion element in ELEMENTS.
+ */
+export function getGridRegions(elements: schema.Board['elements']): IdxBitset<Geometry.CELL>[] {
+    const regions: IdxBitset<Geometry.CELL>[] = [];
+    for (const element of Object.values(elements)) {
+        if ('gridRegion' === element.type) regions.push(...arrayObj2array(element.value || {}));
+    }
+    return regions;
+}
+
+/**
+ * Splits the CELLS of a line into segments, starting a new segment each time the line moves into another of REGIONS.
+ */
+export function getRegionSegments(cells: Idx<Geometry.CELL>[], regions: IdxBitset<Geometry.CELL>[]): Idx<Geometry.CELL>[][] {
+    const cellRegions: IdxMap<Geometry.CELL, number> = {};
+    regions.forEach((region, i) => idxMapToKeysArray(region).forEach(cellIdx => cellRegions[cellIdx] = i));
+
+    const segments: Idx<Geometry.CELL>[][] = [];
+    let prevRegion: undefined | number;
+    for (const cellIdx of cells) {
+        const region = cellRegions[cellIdx];
+        if (0 === segments.length || region !== prevRegion) segments.push([]);
+        segments[segments.length - 1].push(cellIdx);
+        prevRegion = region;
+    }
+    return segments;
+}
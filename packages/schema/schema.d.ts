@@ -55,26 +55,46 @@ export type ArrayObj<V> = {
 export type Grid = {
     width: number,
     height: number,
+    /** Overlapping sub-grids of a multi-grid layout (e.g. samurai). Cells outside every sub-grid are inactive. */
+    subGrids?: ArrayObj<SubGrid>,
+};
+
+/** A sub-grid of a multi-grid layout, positioned by its top left cell. Rows and columns are houses per sub-grid. */
+export type SubGrid = {
+    x: number,
+    y: number,
+    width: number,
+    height: number,
 };
 
 export declare namespace schema {
     export interface Board {
         grid: Grid,
+        /** Title, author, description, and `digits` (a `DigitSet`). */
         meta: Record<string, any>,
         elements: Record<string, Element>,
     }
 
+    /** Range of digits which may be placed in cells, inclusive. */
+    export interface DigitSet {
+        min: number,
+        max: number,
+        /** If cells may be left blank, in which case houses need not contain every digit. */
+        blanks?: boolean,
+    }
+
     export interface Grid {
         width: number,
         height: number,
+        subGrids?: ArrayObj<SubGrid>,
     }
 
     export type Element =
         GridElement | GridRegionElement | DigitElement | PencilMarksElement | ColorsElement
-        | BooleanElement | ConsecutiveElement | DiagonalElement | KillerElement
+        | BooleanElement | TaxicabElement | ConsecutiveElement | DiagonalElement | KillerElement
         | KillerElement | CloneElement | QuadrupleElement | LineElement | ArrowElement
-        | EdgeNumberElement | SeriesNumberElement | LittleKillerElement | RegionElement
-        | TODO_ELEMENTS;
+        | EdgeNumberElement | SeriesNumberElement | LittleKillerElement | RegionElement | ExtraRegionElement
+        | IndexElement | TODO_ELEMENTS;
     export type ElementType = Element['type'];
 
     export interface AbstractElement {
@@ -109,12 +129,17 @@ export declare namespace schema {
     }
 
     export interface BooleanElement extends AbstractElement {
-        type: 'knight' | 'king' | 'disjointGroups' | 'antiX' | 'antiV' | 'selfTaxicab',
+        type: 'knight' | 'king' | 'disjointGroups' | 'antiX' | 'antiV' | 'selfTaxicab' | 'chaosConstruction',
         value?: {
             positive: boolean,
             negative: boolean,
         },
     }
+    export interface TaxicabElement extends AbstractElement {
+        type: 'taxicab',
+        /** Distance at which digits may not repeat. */
+        value?: number,
+    }
     export interface ConsecutiveElement extends AbstractElement {
         type: 'consecutive',
         value?: {
@@ -134,10 +159,23 @@ export declare namespace schema {
         value?: {
             [K: string]: {
                 sum?: number,
+                /** Operator applied to the cage digits to get the clue, defaults to sum. */
+                op?: CageOperator,
+                /** Allows digits to repeat within the cage, as in KenKen. */
+                repeat?: boolean,
                 cells: IdxBitset<Geometry.CELL>,
             },
         },
     }
+    /** Sum, difference, product and quotient. Difference and quotient cages have two cells, as in KenKen. */
+    export type CageOperator = '+' | '-' | '*' | '/';
+    export interface ExtraRegionElement extends AbstractElement {
+        type: 'extraRegion',
+        /** Sets of cells in which digits may not repeat. */
+        value?: {
+            [K: string]: IdxBitset<Geometry.CELL>,
+        },
+    }
     export interface CloneElement extends AbstractElement {
         type: 'clone',
         value?: {
@@ -160,10 +198,13 @@ export declare namespace schema {
         }>,
     }
     export interface LineElement extends AbstractElement {
-        type: 'thermo' | 'between' | 'doubleArrow' | 'lockout' | 'palindrome' | 'whisper' | 'dutchWhisper' | 'renban',
+        type: 'thermo' | 'between' | 'doubleArrow' | 'lockout' | 'palindrome' | 'whisper' | 'dutchWhisper' | 'renban' | 'regionSumLine'
+            | 'entropicLine' | 'modularLine' | 'parityLine' | 'zipper' | 'nabner',
         value?: {
             [K: string]: ArrayObj<Idx<Geometry.CELL>>,
         },
+        /** Minimum difference between adjacent digits on whispers, or between the circles of lockout lines. */
+        delta?: number,
     }
     export interface ArrowElement extends AbstractElement {
         type: 'arrow',
@@ -172,12 +213,16 @@ export declare namespace schema {
                 bulb: ArrayObj<Idx<Geometry.CELL>>,
                 /** The first cell of the body is within the bulb and should not be considered for the sum. */
                 body: ArrayObj<Idx<Geometry.CELL>>,
+                /** Multi-cell bulbs are pills read as a number unless this is false, then their digits are summed. */
+                pill?: boolean,
             },
         },
     }
     export interface EdgeNumberElement extends AbstractElement {
         type: 'difference' | 'ratio' | 'xv',
         value?: IdxMap<Geometry.EDGE, true | number>,
+        /** Negative constraint: all are given, so unmarked edges must not satisfy the default clue. */
+        negative?: boolean,
     }
     export interface SeriesNumberElement extends AbstractElement {
         type: 'sandwich' | 'xsum' | 'skyscraper',
@@ -192,6 +237,11 @@ export declare namespace schema {
         type: 'min' | 'max' | 'odd' | 'even',
         value?: IdxMap<Geometry.CELL, true>,
     }
+    export interface IndexElement extends AbstractElement {
+        /** The digit in an index cell gives the column (row) of its row (column) containing the index cell's column (row) number. */
+        type: 'rowIndex' | 'colIndex',
+        value?: IdxMap<Geometry.CELL, true>,
+    }
 
     export interface TODO_ELEMENTS extends AbstractElement {
         type: never,
@@ -199,12 +249,84 @@ export declare namespace schema {
     }
 }
 
+/** A solver backend, which must at least find solutions and true candidates. */
 export interface Solver {
     cantAttempt(board: schema.Board): Promise<null | string>;
 
+    /** REGIONS, the region index of each cell, is only given with chaos construction. */
     solve(board: schema.Board, maxSolutions: number,
-        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>;
+        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>;
 
+    /** Streams candidates for each cell as it is settled, then all cells, then null when complete. */
     solveTrueCandidates(board: schema.Board,
-        onComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): () => Promise<boolean>;
+        onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): () => Promise<boolean>;
+}
+
+/** New values keyed by path, like a state-manager Update. A null value deletes the path. */
+export type SessionUpdate = Record<string, unknown>;
+
+/** The SAT solver backend, which also supports operations other backends don't. */
+export interface SatSolver extends Solver {
+    minimizeGivens(board: schema.Board, symmetric: boolean,
+        onProgress: (checked: number, total: number) => void,
+        onComplete: (givens: null | IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>;
+
+    generate(board: schema.Board, seed: number,
+        onProgress: (numGivens: number) => void,
+        onComplete: (board: null | schema.Board) => void): () => Promise<boolean>;
+
+    /** Encodes the board as a DIMACS CNF string. */
+    toDimacs(board: schema.Board): Promise<string>;
+
+    /** Starts an incremental solver session for BOARD, replacing any previous session. */
+    startSession(board: schema.Board): Promise<void>;
+
+    /** Applies a board update to the session. */
+    updateSession(update: SessionUpdate): Promise<void>;
+
+    solveSession(maxSolutions: number,
+        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>;
+
+    /** Finds a minimal set of element ids which conflict, or null if the board has a solution. */
+    explainUnsat(board: schema.Board,
+        onComplete: (elementIds: null | string[]) => void): () => Promise<boolean>;
+}
+
+/** A single deduction made by a logical (human-style) solver. */
+export interface LogicalStep {
+    /** Name of the technique used, e.g. `'hiddenSingle'`. */
+    technique: string,
+    /** Human-readable explanation of the step. */
+    description: string,
+    /** Cells which justify the deduction. */
+    cells: Idx<Geometry.CELL>[],
+    /** Digits placed by this step. */
+    placements: IdxMap<Geometry.CELL, number>,
+    /** Candidates removed by this step. */
+    eliminations: IdxMap<Geometry.CELL, number[]>,
+}
+
+/** Difficulty of a puzzle based on the techniques a logical solver needed. */
+export interface DifficultyRating {
+    /** Difficulty of the hardest technique needed, or zero if no steps were needed. */
+    score: number,
+    /** Name of the hardest technique needed. */
+    hardestTechnique: null | string,
+    /** Number of steps taken using each technique. */
+    techniqueCounts: Record<string, number>,
+    /** False if the logical solver got stuck, in which case the score is a lower bound. */
+    solved: boolean,
+}
+
+export interface LogicalSolver {
+    cantAttempt(board: schema.Board): Promise<null | string>;
+
+    getNextHint(board: schema.Board,
+        onComplete: (step: null | LogicalStep) => void): () => Promise<boolean>;
+
+    solveLogical(board: schema.Board,
+        onStepFoundOrComplete: (step: null | LogicalStep) => void): () => Promise<boolean>;
+
+    rateDifficulty(board: schema.Board,
+        onComplete: (rating: DifficultyRating) => void): () => Promise<boolean>;
 }
@@ -0,0 +1,24 @@
+import commonjs from '@rollup/plugin-commonjs';
+import resolve from '@rollup/plugin-node-resolve';
+import typescript from '@rollup/plugin-typescript';
+
+// solver-sat's bundle expects a browser-like `self`.
+const banner = '#!/usr/bin/env node\nglobalThis.self = globalThis.self || globalThis;';
+
+export default {
+    input: [ 'src/solver-cli.ts', 'src/benchmark.ts' ],
+    output: {
+        banner,
+        sourcemap: true,
+        format: 'cjs',
+        dir: 'dist',
+        chunkFileNames: '[name].js',
+    },
+    // Loaded from its own dist so it can find its wasm files.
+    external: [ '@sudoku-studio/solver-sat', 'fs', 'path' ],
+    plugins: [
+        resolve(),
+        commonjs(),
+        typescript({ tsconfig: './tsconfig.json' }),
+    ],
+};
@@ -0,0 +1,261 @@
+import { promises as fs } from "fs";
+import { CancellationToken, EncodingStats, cantAttempt, getEncodingStats, solve, solveTrueCandidates } from "@sudoku-studio/solver-sat";
+import { Puzzle, readPuzzles } from "./puzzles";
+
+const USAGE = `Usage: benchmark [--corpus=FILE] [--runs=N] [--timeout=MS] [--output=FILE]
+                 [--baseline=FILE] [--threshold=FRACTION] [--update-baseline]
+
+Encodes and solves each puzzle in the corpus, then compares against the baseline.
+Exits with status 1 if any puzzle regressed: its encoding grew, or cantAttempt or the
+number of solutions changed. Timings vary between machines, so they are only reported.
+
+  --corpus=FILE          Puzzles to run, in any solver-cli format (default bench/corpus.txt).
+  --runs=N               Times to run each puzzle, reporting the median (default 3).
+  --timeout=MS           Give up on each solve after MS milliseconds (default 60000).
+  --output=FILE          Write the results as JSON.
+  --baseline=FILE        Results to compare against (default bench/baseline.json).
+  --threshold=FRACTION   Change in a time before it is reported (default 0.5).
+  --update-baseline      Overwrite the baseline with these results instead of comparing.`;
+
+/** Timing changes below this many milliseconds are too noisy to report. */
+const MIN_TIME_DIFF = 100;
+
+type Options = {
+    corpus: string,
+    runs: number,
+    timeout: number,
+    output: null | string,
+    baseline: string,
+    threshold: number,
+    updateBaseline: boolean,
+};
+
+type PuzzleResult = {
+    cantAttempt: null | string,
+    encoding: EncodingStats & { elements: Record<string, EncodingStats> },
+    /** Number of solutions found, up to 2. */
+    solutions: number,
+    solveMillis: number,
+    trueCandidatesMillis: number,
+    timedOut: boolean,
+};
+
+type Results = {
+    node: string,
+    date: string,
+    runs: number,
+    puzzles: Record<string, PuzzleResult>,
+};
+
+function parseArgs(args: string[]): Options {
+    const options: Options = {
+        corpus: 'bench/corpus.txt',
+        runs: 3,
+        timeout: 60_000,
+        output: null,
+        baseline: 'bench/baseline.json',
+        threshold: 0.5,
+        updateBaseline: false,
+    };
+    for (let i = 0; i < args.length; i++) {
+        const [ flag, inlineValue ] = args[i].split('=', 2);
+        const getValue = (): string => {
+            const value = inlineValue ?? args[++i];
+            if (null == value) throw Error(`Missing value for ${flag}.`);
+            return value;
+        };
+        const getNumber = (): number => {
+            const value = Number(getValue());
+            if (!(0 < value)) throw Error(`Invalid value for ${flag}.`);
+            return value;
+        };
+
+        switch (flag) {
+            case '--corpus':
+                options.corpus = getValue();
+                break;
+            case '--runs':
+                options.runs = getNumber();
+                break;
+            case '--timeout':
+                options.timeout = getNumber();
+                break;
+            case '--output':
+                options.output = getValue();
+                break;
+            case '--baseline':
+                options.baseline = getValue();
+                break;
+            case '--threshold':
+                options.threshold = getNumber();
+                break;
+            case '--update-baseline':
+                options.updateBaseline = true;
+                break;
+            default:
+                throw Error(flag.startsWith('--') && '--help' !== flag ? `Unknown option ${flag}.` : USAGE);
+        }
+    }
+    return options;
+}
+
+function median(values: number[]): number {
+    const sorted = values.slice().sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Runs FN with a cancellation token which is cancelled after TIMEOUT milliseconds.
+ * Returns the time taken and whether FN finished.
+ */
+async function time(timeout: number, fn: (token: CancellationToken) => Promise<boolean>): Promise<[ number, boolean ]> {
+    const token: CancellationToken = {};
+    const timer = setTimeout(() => token.cancelled = true, timeout);
+    const START = Date.now();
+    const success = await fn(token);
+    clearTimeout(timer);
+    return [ Date.now() - START, success ];
+}
+
+async function runPuzzle({ board }: Puzzle, { runs, timeout }: Options): Promise<PuzzleResult> {
+    const result: PuzzleResult = {
+        cantAttempt: cantAttempt(board),
+        encoding: await getEncodingStats(board),
+        solutions: 0,
+        solveMillis: 0,
+        trueCandidatesMillis: 0,
+        timedOut: false,
+    };
+    if (null != result.cantAttempt) return result;
+
+    const encodeTimes: number[] = [ result.encoding.encodeMillis ];
+    const solveTimes: number[] = [];
+    const trueCandidatesTimes: number[] = [];
+    for (let run = 0; run < runs; run++) {
+        if (0 < run) encodeTimes.push((await getEncodingStats(board)).encodeMillis);
+
+        let solutions = 0;
+        const [ solveMillis, solveSuccess ] = await time(timeout, token =>
+            solve(board, 2, solution => null != solution && solutions++, token));
+        result.solutions = solutions;
+        solveTimes.push(solveMillis);
+
+        const [ trueCandidatesMillis, trueCandidatesSuccess ] = await time(timeout, token =>
+            solveTrueCandidates(board, () => {}, token));
+        trueCandidatesTimes.push(trueCandidatesMillis);
+
+        // Timings of a cancelled solve mean nothing, so don't repeat them.
+        result.timedOut = !solveSuccess || !trueCandidatesSuccess;
+        if (result.timedOut) break;
+    }
+
+    result.encoding.encodeMillis = median(encodeTimes);
+    result.solveMillis = median(solveTimes);
+    result.trueCandidatesMillis = median(trueCandidatesTimes);
+    return result;
+}
+
+/**
+ * How a result changed: regressions fail the benchmark, timing changes are only reported.
+ */
+type Change = 'REGRESSION' | 'improved' | 'slower' | 'faster';
+
+/**
+ * Lists how CURRENT differs from BASELINE as [ change, message ] pairs.
+ */
+function compare(baseline: PuzzleResult, current: PuzzleResult, threshold: number): [ Change, string ][] {
+    const changes: [ Change, string ][] = [];
+
+    if (baseline.cantAttempt !== current.cantAttempt) {
+        changes.push([ null != current.cantAttempt ? 'REGRESSION' : 'improved', `cantAttempt ${baseline.cantAttempt} -> ${current.cantAttempt}` ]);
+        return changes;
+    }
+    if (baseline.solutions !== current.solutions && !baseline.timedOut && !current.timedOut) {
+        changes.push([ 'REGRESSION', `solutions ${baseline.solutions} -> ${current.solutions}` ]);
+    }
+    if (baseline.timedOut !== current.timedOut) {
+        changes.push([ current.timedOut ? 'slower' : 'faster', current.timedOut ? 'timed out' : 'no longer times out' ]);
+    }
+
+    // Encoding size is deterministic, so any growth is a regression.
+    const compareSize = (label: string, before: EncodingStats, after: EncodingStats) => {
+        for (const key of [ 'numLiterals', 'numClauses' ] as const) {
+            if (before[key] !== after[key]) {
+                changes.push([ before[key] < after[key] ? 'REGRESSION' : 'improved', `${label}${key} ${before[key]} -> ${after[key]}` ]);
+            }
+        }
+    };
+    compareSize('', baseline.encoding, current.encoding);
+    const empty: EncodingStats = { encodeMillis: 0, numLiterals: 0, numClauses: 0 };
+    for (const type of new Set([ ...Object.keys(baseline.encoding.elements), ...Object.keys(current.encoding.elements) ])) {
+        compareSize(`${type} `, baseline.encoding.elements[type] || empty, current.encoding.elements[type] || empty);
+    }
+
+    const compareTime = (label: string, before: number, after: number) => {
+        const diff = after - before;
+        if (Math.abs(diff) < MIN_TIME_DIFF || Math.abs(diff) <= before * threshold) return;
+        changes.push([ 0 < diff ? 'slower' : 'faster', `${label} ${before} ms -> ${after} ms` ]);
+    };
+    compareTime('encodeMillis', baseline.encoding.encodeMillis, current.encoding.encodeMillis);
+    compareTime('solveMillis', baseline.solveMillis, current.solveMillis);
+    compareTime('trueCandidatesMillis', baseline.trueCandidatesMillis, current.trueCandidatesMillis);
+
+    return changes;
+}
+
+async function main(args: string[]): Promise<boolean> {
+    const options = parseArgs(args);
+
+    const results: Results = {
+        node: process.version,
+        date: new Date().toISOString(),
+        runs: options.runs,
+        puzzles: {},
+    };
+    const puzzles = await readPuzzles(options.corpus);
+    // Warm up, so the first puzzle isn't charged for loading the solver.
+    if (0 < puzzles.length) await runPuzzle(puzzles[0], { ...options, runs: 1 });
+
+    for (const puzzle of puzzles) {
+        const key = puzzle.board.meta?.title || puzzle.location;
+        if (key in results.puzzles) throw Error(`Duplicate puzzle ${JSON.stringify(key)} in ${options.corpus}.`);
+
+        const result = await runPuzzle(puzzle, options);
+        results.puzzles[key] = result;
+        console.log(null != result.cantAttempt
+            ? `${puzzle.name}: Cannot solve: ${result.cantAttempt}`
+            : `${puzzle.name}: ${result.encoding.numLiterals} literals, ${result.encoding.numClauses} clauses, `
+                + `encode ${result.encoding.encodeMillis} ms, solve ${result.solveMillis} ms, `
+                + `true candidates ${result.trueCandidatesMillis} ms${result.timedOut ? ', timed out' : ''}`);
+    }
+
+    const json = JSON.stringify(results, null, 2) + '\n';
+    if (null != options.output) await fs.writeFile(options.output, json);
+    if (options.updateBaseline) {
+        await fs.writeFile(options.baseline, json);
+        console.log(`\nUpdated ${options.baseline}.`);
+        return true;
+    }
+
+    const baseline: Results = JSON.parse(await fs.readFile(options.baseline, 'utf-8'));
+    console.log(`\nCompared to ${options.baseline} (${baseline.date}, node ${baseline.node}):`);
+    let regressed = false;
+    for (const [ key, result ] of Object.entries(results.puzzles)) {
+        const before = baseline.puzzles[key];
+        if (null == before) {
+            console.log(`${key}: not in baseline`);
+            continue;
+        }
+        for (const [ change, message ] of compare(before, result, options.threshold)) {
+            regressed ||= 'REGRESSION' === change;
+            console.log(`${key}: ${change} ${message}`);
+        }
+    }
+    console.log(regressed ? 'Regressions found.' : 'No regressions.');
+    return !regressed;
+}
+
+main(process.argv.slice(2)).then(ok => process.exit(ok ? 0 : 1), e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+});
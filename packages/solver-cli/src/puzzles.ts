@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import { fPuzzles } from "@sudoku-studio/board-format";
+import type { schema } from "@sudoku-studio/schema";
+
+export type Puzzle = {
+    /** Where the puzzle is in its file, e.g. `puzzles.txt:3`. */
+    location: string,
+    name: string,
+    board: schema.Board,
+};
+
+function createElement<E extends schema.Element>(type: E['type'], value?: E['value']): E {
+    return { type, value } as E;
+}
+
+function parsePuzzle(text: string): schema.Board {
+    if (text.startsWith('{')) return JSON.parse(text);
+
+    // Accept f-puzzles links as well as the bare base64.
+    const match = /[?&]load=([^&\s]+)/.exec(text);
+    const b64 = null == match ? text : decodeURIComponent(match[1]);
+    return fPuzzles.parseFpuzzles(b64.replace(/ /g, '+'), createElement);
+}
+
+/**
+ * Reads the puzzles in FILE, naming each by its title and position in the file.
+ */
+export async function readPuzzles(file: string): Promise<Puzzle[]> {
+    const text = (await fs.readFile(file, 'utf-8')).trim();
+
+    const boards: [ string, schema.Board ][] = [];
+    let data: undefined | schema.Board | schema.Board[];
+    try {
+        data = JSON.parse(text);
+    }
+    catch (e) {
+        // Not a single JSON document, so one puzzle per line.
+    }
+
+    if (Array.isArray(data)) {
+        data.forEach((board, i) => boards.push([ `${file}[${i}]`, board ]));
+    }
+    else if (null != data) {
+        boards.push([ file, data ]);
+    }
+    else {
+        text.split('\n').forEach((line, i) => {
+            line = line.trim();
+            if (0 === line.length || line.startsWith('#')) return;
+            boards.push([ `${file}:${i + 1}`, parsePuzzle(line) ]);
+        });
+    }
+
+    return boards.map(([ location, board ]) => ({
+        location,
+        name: board.meta?.title ? `${location} ${JSON.stringify(board.meta.title)}` : location,
+        board,
+    }));
+}
@@ -0,0 +1,116 @@
+import { CancellationToken, cantAttempt, solve } from "@sudoku-studio/solver-sat";
+import { solutionToString } from "@sudoku-studio/board-utils";
+import type { Geometry, IdxMap } from "@sudoku-studio/schema";
+import { Puzzle, readPuzzles } from "./puzzles";
+
+const USAGE = `Usage: solver-cli [--max-solutions=N] [--timeout=MS] [--json] FILE...
+
+Each FILE holds a JSON board, a JSON array of boards, or one puzzle per line as
+f-puzzles base64 (or an f-puzzles link) or JSON. Lines starting with # are skipped.
+
+  --max-solutions=N  Stop after finding N solutions (default 2).
+  --timeout=MS       Give up on a puzzle after MS milliseconds (default 10000).
+  --json             Print one JSON object per puzzle.`;
+
+type Options = {
+    maxSolutions: number,
+    timeout: number,
+    json: boolean,
+    files: string[],
+};
+
+type Result = {
+    name: string,
+    cantAttempt: null | string,
+    /** Number of solutions found. */
+    count: number,
+    /** False if the solver stopped early, due to MAX_SOLUTIONS or the timeout. */
+    complete: boolean,
+    timedOut: boolean,
+    timeMillis: number,
+    solutions: string[],
+};
+
+function parseArgs(args: string[]): Options {
+    const options: Options = { maxSolutions: 2, timeout: 10_000, json: false, files: [] };
+    for (let i = 0; i < args.length; i++) {
+        const [ flag, inlineValue ] = args[i].split('=', 2);
+        const getNumber = (): number => {
+            const value = Number(inlineValue ?? args[++i]);
+            if (!Number.isInteger(value) || value <= 0) throw Error(`Invalid value for ${flag}.`);
+            return value;
+        };
+
+        switch (flag) {
+            case '--max-solutions':
+                options.maxSolutions = getNumber();
+                break;
+            case '--timeout':
+                options.timeout = getNumber();
+                break;
+            case '--json':
+                options.json = true;
+                break;
+            case '--help':
+                throw Error(USAGE);
+            default:
+                if (flag.startsWith('--')) throw Error(`Unknown option ${flag}.`);
+                options.files.push(args[i]);
+        }
+    }
+    if (0 === options.files.length) throw Error(USAGE);
+    return options;
+}
+
+async function solvePuzzle({ name, board }: Puzzle, { maxSolutions, timeout }: Options): Promise<Result> {
+    const result: Result = {
+        name,
+        cantAttempt: cantAttempt(board),
+        count: 0,
+        complete: false,
+        timedOut: false,
+        timeMillis: 0,
+        solutions: [],
+    };
+    if (null != result.cantAttempt) return result;
+
+    const START = Date.now();
+    const token: CancellationToken = {};
+    const timer = setTimeout(() => token.cancelled = true, timeout);
+
+    const success = await solve(board, maxSolutions, (solution: null | IdxMap<Geometry.CELL, number>) => {
+        if (null == solution) return;
+        result.count++;
+        result.solutions.push(solutionToString(solution, board.grid));
+    }, token);
+    clearTimeout(timer);
+
+    result.timeMillis = Date.now() - START;
+    result.timedOut = !success;
+    result.complete = success && result.count < maxSolutions;
+    return result;
+}
+
+function formatResult(result: Result): string {
+    if (null != result.cantAttempt) return `${result.name}: Cannot solve: ${result.cantAttempt}`;
+
+    const count = `${result.complete ? '' : '≥'}${result.count} solution${1 === result.count ? '' : 's'}`;
+    const timedOut = result.timedOut ? ', timed out' : '';
+    return [ `${result.name}: ${count} (${result.timeMillis} ms${timedOut})`, ...result.solutions ].join('\n\n');
+}
+
+async function main(args: string[]): Promise<void> {
+    const options = parseArgs(args);
+
+    for (const file of options.files) {
+        for (const puzzle of await readPuzzles(file)) {
+            const result = await solvePuzzle(puzzle, options);
+            console.log(options.json ? JSON.stringify(result) : formatResult(result));
+        }
+    }
+}
+
+main(process.argv.slice(2)).catch(e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+});
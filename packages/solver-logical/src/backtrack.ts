@@ -0,0 +1,231 @@
+import type { Geometry, IdxMap, schema } from '@sudoku-studio/schema';
+import { Context, applyStep, hasContradiction, isSolved, makePlacementStep, maskToValues, popcount } from './context';
+import { CancellationToken, createContext } from './solver-logical';
+import { TECHNIQUES } from './techniques';
+
+const asyncYield = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/** Number of search nodes between yields. */
+const YIELD_INTERVAL = 256;
+
+/**
+ * Techniques used to propagate constraints during search. Together these reject any complete assignment
+ * which breaks a constraint, so every solution found is valid.
+ */
+const PROPAGATION = [
+    TECHNIQUES.nakedSingle,
+    TECHNIQUES.parity,
+    TECHNIQUES.hiddenSingle,
+    TECHNIQUES.killerCage,
+    TECHNIQUES.thermo,
+    TECHNIQUES.whisper,
+    TECHNIQUES.adjacentPair,
+    TECHNIQUES.littleKiller,
+    TECHNIQUES.arrow,
+];
+
+type Search = {
+    cancellationToken: CancellationToken,
+    /** Called for each solution, returns false to stop searching. */
+    onSolution: (placed: number[]) => boolean,
+    stopped: boolean,
+    nodes: number,
+};
+
+/** Returns true if some house has a digit which cannot go anywhere in it. */
+function hasMissingDigit(context: Context): boolean {
+    const allMask = (1 << context.size) - 1;
+    return context.groups.some(({ cells, isHouse }) =>
+        isHouse && allMask !== cells.reduce((mask, cellIdx) => mask | context.candidates[cellIdx], 0));
+}
+
+/**
+ * Applies PROPAGATION until nothing changes. Returns false if CONTEXT has no solution.
+ */
+function propagate(context: Context): boolean {
+    while (!hasContradiction(context) && !hasMissingDigit(context)) {
+        let found = false;
+        for (const technique of PROPAGATION) {
+            const step = technique(context);
+            if (null == step) continue;
+
+            applyStep(context, step);
+            found = true;
+            break;
+        }
+        if (!found) return true;
+    }
+    return false;
+}
+
+/**
+ * Builds the context for BOARD, or returns null if its givens conflict (placing givens overwrites
+ * eliminations, so this isn't caught by propagation).
+ */
+function createSearchContext(board: schema.Board): null | Context {
+    const context = createContext(board);
+    for (const [ cellIdx, value ] of Object.entries(context.givens)) {
+        for (const peerIdx of context.peers[+cellIdx]) {
+            if (value === context.placed[peerIdx]) return null;
+        }
+    }
+    return context;
+}
+
+function cloneContext(context: Context): Context {
+    return { ...context, candidates: context.candidates.slice(), placed: context.placed.slice() };
+}
+
+function placedToSolution(placed: number[]): IdxMap<Geometry.CELL, number> {
+    const solution: IdxMap<Geometry.CELL, number> = {};
+    placed.forEach((value, cellIdx) => solution[cellIdx] = value);
+    return solution;
+}
+
+/**
+ * Depth first search, guessing digits in the unplaced cell with the fewest candidates.
+ * Returns false if cancelled.
+ */
+async function search(context: Context, state: Search): Promise<boolean> {
+    if (0 === ++state.nodes % YIELD_INTERVAL) {
+        await asyncYield();
+        if (state.cancellationToken.cancelled) return false;
+    }
+
+    if (!propagate(context)) return true;
+    if (isSolved(context)) {
+        state.stopped = !state.onSolution(context.placed);
+        return true;
+    }
+
+    let guessCellIdx = -1;
+    for (let cellIdx = 0; cellIdx < context.candidates.length; cellIdx++) {
+        if (0 !== context.placed[cellIdx]) continue;
+        if (0 > guessCellIdx || popcount(context.candidates[cellIdx]) < popcount(context.candidates[guessCellIdx])) {
+            guessCellIdx = cellIdx;
+        }
+    }
+
+    for (const value of maskToValues(context.candidates[guessCellIdx])) {
+        const child = cloneContext(context);
+        applyStep(child, makePlacementStep(child, 'guess', '', guessCellIdx, value));
+
+        if (!await search(child, state)) return false;
+        if (state.stopped) break;
+    }
+    return true;
+}
+
+/**
+ * Finds solutions by constraint propagation and backtracking, without SAT. Supports the same
+ * constraints as the logical solver.
+ */
+export async function solveBacktracking(board: schema.Board, maxSolutions: number,
+    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void,
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    if (0 >= maxSolutions) {
+        onSolutionFoundOrComplete(null);
+        return true;
+    }
+
+    const context = createSearchContext(board);
+
+    let numSolutions = 0;
+    const success = null == context || await search(context, {
+        cancellationToken,
+        onSolution: placed => {
+            onSolutionFoundOrComplete(placedToSolution(placed));
+            return ++numSolutions < maxSolutions;
+        },
+        stopped: false,
+        nodes: 0,
+    });
+    if (!success) return false;
+
+    // Complete.
+    onSolutionFoundOrComplete(null);
+    return true;
+}
+
+/**
+ * Finds which digits are possible in each cell, counting up to 10 solutions per digit.
+ * Calls ON_CANDIDATES_FOUND_OR_COMPLETE with each cell once it is settled, then with all cells (including
+ * final counts), then null.
+ */
+export async function solveTrueCandidatesBacktracking(board: schema.Board,
+    onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void,
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    // Filled digits are not constraints here.
+    const elements: schema.Board['elements'] = {};
+    for (const [ id, element ] of Object.entries(board.elements)) {
+        if ('filled' !== element.type) elements[id] = element;
+    }
+    const context = createSearchContext({ ...board, elements });
+
+    const maxSolutions = 10;
+    const validCandidates: IdxMap<Geometry.CELL, Map<number, number>> = {};
+    for (let cellIdx = 0; cellIdx < board.grid.width * board.grid.height; cellIdx++) {
+        validCandidates[cellIdx] = new Map<number, number>();
+    }
+    if (null == context) {
+        onCandidatesFoundOrComplete(validCandidates);
+        onCandidatesFoundOrComplete(null);
+        return true;
+    }
+
+    // Counts each distinct solution once, stopping after MAX new ones. Returns null if cancelled.
+    const foundSolutions = new Set<string>();
+    const findSolutions = async (searchContext: Context, max: number): Promise<null | number> => {
+        let found = 0;
+        const success = await search(searchContext, {
+            cancellationToken,
+            onSolution: placed => {
+                const key = placed.join(',');
+                if (foundSolutions.has(key)) return true;
+                foundSolutions.add(key);
+
+                placed.forEach((value, cellIdx) => {
+                    const candidates = validCandidates[cellIdx]!;
+                    candidates.set(value, 1 + (candidates.get(value) || 0));
+                });
+                return ++found < max;
+            },
+            stopped: false,
+            nodes: 0,
+        });
+        return success ? found : null;
+    };
+
+    const numInitialSolutions = await findSolutions(cloneContext(context), maxSolutions);
+    if (null == numInitialSolutions) return false;
+
+    if (numInitialSolutions < maxSolutions) {
+        // All solutions found.
+        onCandidatesFoundOrComplete(validCandidates);
+        onCandidatesFoundOrComplete(null);
+        return true;
+    }
+
+    for (let testCellIdx = 0; testCellIdx < context.candidates.length; testCellIdx++) {
+        const candidates = validCandidates[testCellIdx]!;
+
+        if (undefined === context.givens[testCellIdx]) {
+            for (const value of maskToValues(context.candidates[testCellIdx])) {
+                const currentCount = candidates.get(value) || 0;
+                if (currentCount >= maxSolutions) continue;
+
+                const testContext = cloneContext(context);
+                applyStep(testContext, makePlacementStep(testContext, 'guess', '', testCellIdx, value));
+                if (null == await findSolutions(testContext, maxSolutions - currentCount)) return false;
+            }
+        }
+        onCandidatesFoundOrComplete({ [testCellIdx]: candidates });
+    }
+
+    // Complete.
+    onCandidatesFoundOrComplete(validCandidates);
+    onCandidatesFoundOrComplete(null);
+    return true;
+}
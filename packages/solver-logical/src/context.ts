@@ -0,0 +1,131 @@
+import type { Geometry, Grid, Idx, IdxMap, LogicalStep } from "@sudoku-studio/schema";
+import { cellIdx2cellCoord } from "@sudoku-studio/board-utils";
+
+/** A set of cells which may not contain repeated digits. */
+export type Group = {
+    name: string,
+    type: 'row' | 'column' | 'region' | 'other',
+    cells: Idx<Geometry.CELL>[],
+    /** If the group has exactly `size` cells then every digit must appear in it. */
+    isHouse: boolean,
+};
+
+export type Context = {
+    size: number,
+    grid: Grid,
+    /** Bitmask of remaining candidates per cell, bit `v` is digit `v + 1`. */
+    candidates: number[],
+    /** Digit placed in each cell, or zero if the cell is not yet placed. */
+    placed: number[],
+    /** Digits to place once all the constraints are gathered. */
+    givens: IdxMap<Geometry.CELL, number>,
+    groups: Group[],
+    /** Pairs of cells which may not contain the same digit, in addition to those within `groups`. */
+    peerPairs: [ Idx<Geometry.CELL>, Idx<Geometry.CELL> ][],
+    /** Cells which cannot share a digit with each cell, built from `groups` and `peerPairs`. */
+    peers: Set<Idx<Geometry.CELL>>[],
+
+    killers: { sum: number, cells: Idx<Geometry.CELL>[] }[],
+    thermos: { strict: boolean, cells: Idx<Geometry.CELL>[] }[],
+    whispers: { delta: number, cells: Idx<Geometry.CELL>[] }[],
+    arrows: { bulb: Idx<Geometry.CELL>[], bulbWeights: number[], body: Idx<Geometry.CELL>[] }[],
+    parities: { odd: boolean, cells: Idx<Geometry.CELL>[] }[],
+    /** Sums along diagonals, digits may repeat. */
+    littleKillers: { sum: number, cells: Idx<Geometry.CELL>[] }[],
+    /** Adjacent cells whose digits must satisfy ALLOWED, from difference, ratio and XV clues. RULE describes it. */
+    adjacentPairs: { rule: string, cells: [ Idx<Geometry.CELL>, Idx<Geometry.CELL> ], allowed: (a: number, b: number) => boolean }[],
+};
+
+export function popcount(mask: number): number {
+    let count = 0;
+    for (; 0 !== mask; mask &= mask - 1) count++;
+    return count;
+}
+
+/** Returns the 1-based digits set in MASK, in increasing order. */
+export function maskToValues(mask: number): number[] {
+    const values: number[] = [];
+    for (let v = 0; 0 !== mask >> v; v++) {
+        if (mask & (1 << v)) values.push(v + 1);
+    }
+    return values;
+}
+
+export function cellName(idx: Idx<Geometry.CELL>, grid: Grid): string {
+    const [ x, y ] = cellIdx2cellCoord(idx, grid);
+    return `r${y + 1}c${x + 1}`;
+}
+
+export function listCells(cells: Idx<Geometry.CELL>[], grid: Grid): string {
+    return cells.map(idx => cellName(idx, grid)).join(', ');
+}
+
+/**
+ * Creates a step placing VALUE in CELL_IDX, eliminating VALUE from all of the cell's peers.
+ */
+export function makePlacementStep(context: Context, technique: string, description: string,
+    cellIdx: Idx<Geometry.CELL>, value: number, cells: Idx<Geometry.CELL>[] = [ cellIdx ]): LogicalStep
+{
+    const bit = 1 << (value - 1);
+    const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+    for (const peerIdx of context.peers[cellIdx]) {
+        if (context.candidates[peerIdx] & bit) eliminationMasks.set(peerIdx, bit);
+    }
+    return {
+        technique,
+        description,
+        cells,
+        placements: { [cellIdx]: value },
+        eliminations: masksToEliminations(eliminationMasks),
+    };
+}
+
+/**
+ * Creates a step removing candidates, or returns null if ELIMINATION_MASKS would not remove anything.
+ */
+export function makeEliminationStep(context: Context, technique: string, description: string,
+    cells: Idx<Geometry.CELL>[], eliminationMasks: Map<Idx<Geometry.CELL>, number>): null | LogicalStep
+{
+    for (const [ cellIdx, mask ] of eliminationMasks) {
+        const removed = mask & context.candidates[cellIdx];
+        if (0 === removed) eliminationMasks.delete(cellIdx);
+        else eliminationMasks.set(cellIdx, removed);
+    }
+    if (0 === eliminationMasks.size) return null;
+
+    return {
+        technique,
+        description,
+        cells,
+        placements: {},
+        eliminations: masksToEliminations(eliminationMasks),
+    };
+}
+
+function masksToEliminations(eliminationMasks: Map<Idx<Geometry.CELL>, number>): IdxMap<Geometry.CELL, number[]> {
+    const eliminations: IdxMap<Geometry.CELL, number[]> = {};
+    for (const [ cellIdx, mask ] of eliminationMasks) {
+        eliminations[cellIdx] = maskToValues(mask);
+    }
+    return eliminations;
+}
+
+export function applyStep(context: Context, step: LogicalStep): void {
+    for (const [ cellIdx, values ] of Object.entries(step.eliminations)) {
+        for (const value of values!) {
+            context.candidates[+cellIdx] &= ~(1 << (value - 1));
+        }
+    }
+    for (const [ cellIdx, value ] of Object.entries(step.placements)) {
+        context.placed[+cellIdx] = value!;
+        context.candidates[+cellIdx] = 1 << (value! - 1);
+    }
+}
+
+export function isSolved(context: Context): boolean {
+    return context.placed.every(value => 0 !== value);
+}
+
+export function hasContradiction(context: Context): boolean {
+    return context.candidates.some(mask => 0 === mask);
+}
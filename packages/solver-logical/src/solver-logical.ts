@@ -0,0 +1,385 @@
+import { arrayObj2array, cellCoord2CellIdx, cellCoords2edgeIdx, diagonalIdx2diagonalCellCoords, edgeIdx2cellIdxes, getArrowBulbWeights, getColCellIdxes, getDigitSet, getLineDelta, getMajorDiagonal, getOrthogonallyAdjacentPairs, getRowCellIdxes, idxMapToKeysArray, kingMoves, knightMoves } from '@sudoku-studio/board-utils';
+import type { DifficultyRating, Geometry, Idx, LogicalStep, schema } from '@sudoku-studio/schema';
+import { Context, applyStep, hasContradiction, isSolved, makePlacementStep } from './context';
+import { TECHNIQUES, TECHNIQUE_DIFFICULTY, Technique } from './techniques';
+
+export type { Context } from './context';
+export { TECHNIQUES, TECHNIQUE_DIFFICULTY } from './techniques';
+export type { Technique } from './techniques';
+export { solveBacktracking, solveTrueCandidatesBacktracking } from './backtrack';
+
+const asyncYield = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export type CancellationToken = {
+    cancelled?: true
+};
+
+export function cantAttempt(board: schema.Board): null | string {
+    if (board.grid.width !== board.grid.height) {
+        return 'Grid is not square.';
+    }
+    if (null != board.grid.subGrids) {
+        return 'Multi-grid layouts are not supported.';
+    }
+
+    const { min, max, blanks } = getDigitSet(board);
+    if (1 !== min || board.grid.width !== max || blanks) {
+        return 'Digits must be 1 to the grid size.';
+    }
+
+    for (const element of Object.values(board.elements)) {
+        if (!(element.type in ELEMENT_HANDLERS)) {
+            return `Cannot handle ${JSON.stringify(element.type)} element.`;
+        }
+        if ('killer' === element.type && Object.values((element as schema.KillerElement).value || {})
+            .some(({ op, repeat }) => repeat || (null != op && '+' !== op)))
+        {
+            return 'Cannot handle arithmetic or repeating cages.';
+        }
+    }
+    return null;
+}
+
+/**
+ * Builds the candidate grid for BOARD, with givens (and filled digits) placed.
+ */
+export function createContext(board: schema.Board): Context {
+    const size = board.grid.width;
+    const context: Context = {
+        size,
+        grid: board.grid,
+        candidates: Array(size * size).fill((1 << size) - 1),
+        placed: Array(size * size).fill(0),
+        givens: {},
+        groups: [],
+        peerPairs: [],
+        peers: Array<void>(size * size).fill().map(() => new Set()),
+        killers: [],
+        thermos: [],
+        whispers: [],
+        arrows: [],
+        parities: [],
+        littleKillers: [],
+        adjacentPairs: [],
+    };
+
+    for (const element of Object.values(board.elements)) {
+        const handler: null | ((element: schema.Element, context: Context) => void) =
+            ELEMENT_HANDLERS[element.type as keyof typeof ELEMENT_HANDLERS] as any;
+        if (undefined === handler) console.warn(`Ignoring constraint: ${element.type}`);
+        if (null != handler) {
+            handler(element, context);
+        }
+    }
+
+    for (const { cells } of context.groups) {
+        for (const a of cells) {
+            for (const b of cells) {
+                if (a !== b) context.peers[a].add(b);
+            }
+        }
+    }
+    for (const [ a, b ] of context.peerPairs) {
+        context.peers[a].add(b);
+        context.peers[b].add(a);
+    }
+
+    for (const [ cellIdx, value ] of Object.entries(context.givens)) {
+        applyStep(context, makePlacementStep(context, 'given', '', +cellIdx, value!));
+    }
+    return context;
+}
+
+/**
+ * Finds the next step using the easiest technique which makes progress.
+ * Returns null if the puzzle is solved, broken, or no technique applies.
+ */
+export function findNextStep(context: Context): null | LogicalStep {
+    if (isSolved(context) || hasContradiction(context)) return null;
+
+    for (const technique of Object.keys(TECHNIQUES) as Technique[]) {
+        const step = TECHNIQUES[technique](context);
+        if (null != step) return step;
+    }
+    return null;
+}
+
+export async function getNextHint(board: schema.Board,
+    onComplete: (step: null | LogicalStep) => void,
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    const context = createContext(board);
+
+    await asyncYield();
+    if (cancellationToken.cancelled) return false;
+
+    onComplete(findNextStep(context));
+    return true;
+}
+
+async function solveHelper(
+    context: Context,
+    cancellationToken: CancellationToken,
+    onStepFound: (step: LogicalStep) => void,
+): Promise<boolean> {
+    while (true) {
+        await asyncYield();
+        if (cancellationToken.cancelled) return false;
+
+        const step = findNextStep(context);
+        if (null == step) return true;
+
+        applyStep(context, step);
+        onStepFound(step);
+    }
+}
+
+export async function solveLogical(board: schema.Board,
+    onStepFoundOrComplete: (step: null | LogicalStep) => void,
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    const context = createContext(board);
+
+    if (!await solveHelper(context, cancellationToken, onStepFoundOrComplete)) return false;
+
+    // Complete.
+    onStepFoundOrComplete(null);
+    return true;
+}
+
+/**
+ * Rates BOARD by the hardest technique needed when always using the easiest technique available.
+ */
+export async function rateDifficulty(board: schema.Board,
+    onComplete: (rating: DifficultyRating) => void,
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    const context = createContext(board);
+
+    const rating: DifficultyRating = {
+        score: 0,
+        hardestTechnique: null,
+        techniqueCounts: {},
+        solved: false,
+    };
+    const success = await solveHelper(context, cancellationToken, ({ technique }) => {
+        rating.techniqueCounts[technique] = 1 + (rating.techniqueCounts[technique] || 0);
+
+        const difficulty = TECHNIQUE_DIFFICULTY[technique as Technique];
+        if (rating.score < difficulty) {
+            rating.score = difficulty;
+            rating.hardestTechnique = technique;
+        }
+    });
+    if (!success) return false;
+
+    rating.solved = isSolved(context);
+    onComplete(rating);
+    return true;
+}
+
+export const ELEMENT_HANDLERS = {
+    corner: null,
+    center: null,
+    colors: null,
+
+    grid(_element: schema.GridElement, context: Context): void {
+        for (let i = 0; i < context.size; i++) {
+            context.groups.push({ name: `row ${i + 1}`, type: 'row', cells: getRowCellIdxes(i, context.grid), isHouse: true });
+            context.groups.push({ name: `column ${i + 1}`, type: 'column', cells: getColCellIdxes(i, context.grid), isHouse: true });
+        }
+    },
+
+    gridRegion(element: schema.GridRegionElement, context: Context): void {
+        arrayObj2array(element.value || {}).forEach((region, i) => {
+            const cells = idxMapToKeysArray<Geometry.CELL>(region);
+            addGroup(`box ${i + 1}`, 'region', cells, context);
+        });
+    },
+
+    disjointGroups(element: schema.BooleanElement, context: Context): void {
+        if (!element.value) return;
+
+        const regions = context.groups
+            .filter(({ type }) => 'region' === type)
+            .map(({ cells }) => cells.slice().sort((a, b) => a - b));
+        for (let pos = 0; pos < context.size; pos++) {
+            const cells = regions.map(cells => cells[pos]).filter(idx => null != idx);
+            addGroup(`disjoint group ${pos + 1}`, 'other', cells, context);
+        }
+    },
+
+    givens(element: schema.DigitElement, context: Context): void {
+        Object.assign(context.givens, element.value || {});
+    },
+
+    filled(element: schema.DigitElement, context: Context): void {
+        // Treat filled same as givens.
+        ELEMENT_HANDLERS.givens(element, context);
+    },
+
+    knight(element: schema.BooleanElement, context: Context): void {
+        if (element.value) {
+            for (const [ a, b ] of knightMoves(context.grid)) {
+                context.peerPairs.push([ cellCoord2CellIdx(a, context.grid), cellCoord2CellIdx(b, context.grid) ]);
+            }
+        }
+    },
+
+    king(element: schema.BooleanElement, context: Context): void {
+        if (element.value) {
+            for (const [ a, b ] of kingMoves(context.grid)) {
+                context.peerPairs.push([ cellCoord2CellIdx(a, context.grid), cellCoord2CellIdx(b, context.grid) ]);
+            }
+        }
+    },
+
+    diagonal(element: schema.DiagonalElement, context: Context): void {
+        if (element.value) {
+            if (element.value.positive) {
+                const cells = getMajorDiagonal(true, context.grid).map(coord => cellCoord2CellIdx(coord, context.grid));
+                addGroup('the positive diagonal', 'other', cells, context);
+            }
+            if (element.value.negative) {
+                const cells = getMajorDiagonal(false, context.grid).map(coord => cellCoord2CellIdx(coord, context.grid));
+                addGroup('the negative diagonal', 'other', cells, context);
+            }
+        }
+    },
+
+    killer(element: schema.KillerElement, context: Context): void {
+        for (const { sum, op, repeat, cells } of Object.values(element.value || {})) {
+            const cellIdxes = idxMapToKeysArray<Geometry.CELL>(cells || {});
+
+            // Repeating cages and other operators are rejected by cantAttempt.
+            if (repeat) continue;
+
+            // Cage no repeats.
+            addGroup('the cage', 'other', cellIdxes, context);
+
+            // Cage sum.
+            if ('number' === typeof sum && (null == op || '+' === op)) {
+                context.killers.push({ sum, cells: cellIdxes });
+            }
+        }
+    },
+
+    thermo(element: schema.LineElement, context: Context): void {
+        for (const cells of Object.values(element.value || {})) {
+            context.thermos.push({ strict: true, cells: arrayObj2array(cells || {}) });
+        }
+    },
+
+    slowThermo(element: schema.LineElement, context: Context): void {
+        for (const cells of Object.values(element.value || {})) {
+            context.thermos.push({ strict: false, cells: arrayObj2array(cells || {}) });
+        }
+    },
+
+    whisper(element: schema.LineElement, context: Context): void {
+        const delta = getLineDelta(element, context.size);
+        for (const cells of Object.values(element.value || {})) {
+            context.whispers.push({ delta, cells: arrayObj2array(cells || {}) });
+        }
+    },
+
+    dutchWhisper(element: schema.LineElement, context: Context): void {
+        const delta = getLineDelta(element, context.size);
+        for (const cells of Object.values(element.value || {})) {
+            context.whispers.push({ delta, cells: arrayObj2array(cells || {}) });
+        }
+    },
+
+    extraRegion(element: schema.ExtraRegionElement, context: Context): void {
+        for (const cells of Object.values(element.value || {})) {
+            addGroup('the extra region', 'other', idxMapToKeysArray<Geometry.CELL>(cells || {}), context);
+        }
+    },
+
+    arrow(element: schema.ArrowElement, context: Context): void {
+        for (const { bulb, body, pill } of Object.values(element.value || {})) {
+            // Arrow only has a bulb
+            if (null == body) continue;
+
+            // Discard start (which is on cell head).
+            const [ _bodyStart, ...bodyArrRest ] = arrayObj2array(body);
+            const bulbArr = arrayObj2array(bulb);
+            if (0 >= bulbArr.length || 0 >= bodyArrRest.length) continue;
+
+            context.arrows.push({ bulb: bulbArr, bulbWeights: getArrowBulbWeights(bulbArr.length, pill), body: bodyArrRest });
+        }
+    },
+
+    even(element: schema.RegionElement, context: Context): void {
+        context.parities.push({ odd: false, cells: idxMapToKeysArray<Geometry.CELL>(element.value || {}) });
+    },
+
+    odd(element: schema.RegionElement, context: Context): void {
+        context.parities.push({ odd: true, cells: idxMapToKeysArray<Geometry.CELL>(element.value || {}) });
+    },
+
+    littleKiller(element: schema.LittleKillerElement, context: Context): void {
+        for (const [ diagIdx, sum ] of Object.entries(element.value || {})) {
+            if ('number' !== typeof sum) continue;
+
+            const cells = diagonalIdx2diagonalCellCoords(+diagIdx, context.grid).map(coord => cellCoord2CellIdx(coord, context.grid));
+            context.littleKillers.push({ sum, cells });
+        }
+    },
+
+    difference(element: schema.EdgeNumberElement, context: Context): void {
+        addEdgeClues(element, context, 1, [ 1 ],
+            delta => `differ by ${delta}`,
+            (delta, a, b) => delta === Math.abs(a - b));
+    },
+
+    ratio(element: schema.EdgeNumberElement, context: Context): void {
+        addEdgeClues(element, context, 2, [ 2 ],
+            ratio => `have a ratio of ${ratio}`,
+            (ratio, a, b) => ratio * a === b || ratio * b === a);
+    },
+
+    xv(element: schema.EdgeNumberElement, context: Context): void {
+        addEdgeClues(element, context, null, [ 5, 10 ],
+            sum => `sum to ${sum}`,
+            (sum, a, b) => sum === a + b);
+    },
+} as const;
+
+/**
+ * Adds the clues of an edge ELEMENT as adjacent pairs which must SATISFY their clue. Unmarked (`true`) clues use
+ * TRUE_CLUE, or are ignored if it is null. If the element is negative, unmarked edges must not satisfy any of
+ * NEGATIVE_CLUES.
+ */
+function addEdgeClues(element: schema.EdgeNumberElement, context: Context,
+    trueClue: null | number, negativeClues: number[],
+    rule: (clue: number) => string, satisfies: (clue: number, a: number, b: number) => boolean): void
+{
+    const value = element.value || {};
+    for (const [ edgeIdx, clueOrTrue ] of Object.entries(value)) {
+        const clue = 'number' === typeof clueOrTrue ? clueOrTrue : trueClue;
+        if (null == clue) continue;
+
+        context.adjacentPairs.push({
+            rule: rule(clue),
+            cells: edgeIdx2cellIdxes(+edgeIdx, context.grid),
+            allowed: (a, b) => satisfies(clue, a, b),
+        });
+    }
+
+    if (!element.negative) return;
+    for (const [ coordA, coordB ] of getOrthogonallyAdjacentPairs(context.grid)) {
+        if (null != value[cellCoords2edgeIdx(coordA, coordB, context.grid)!]) continue;
+
+        context.adjacentPairs.push({
+            rule: `not ${negativeClues.map(rule).join(' or ')}`,
+            cells: [ cellCoord2CellIdx(coordA, context.grid), cellCoord2CellIdx(coordB, context.grid) ],
+            allowed: (a, b) => !negativeClues.some(clue => satisfies(clue, a, b)),
+        });
+    }
+}
+
+function addGroup(name: string, type: 'region' | 'other', cells: Idx<Geometry.CELL>[], context: Context): void {
+    if (cells.length < 2) return;
+    context.groups.push({ name, type, cells, isHouse: context.size === cells.length });
+}
@@ -0,0 +1,405 @@
+import type { Geometry, Idx, LogicalStep } from "@sudoku-studio/schema";
+import { cellIdx2cellCoord, getColCellIdxes, getRowCellIdxes } from "@sudoku-studio/board-utils";
+import { Context, Group, cellName, listCells, makeEliminationStep, makePlacementStep, maskToValues, popcount } from "./context";
+
+/**
+ * Techniques in the order they are attempted, roughly easiest first.
+ * Each returns the first step it can find, or null.
+ */
+export const TECHNIQUES = {
+    nakedSingle(context: Context): null | LogicalStep {
+        for (let cellIdx = 0; cellIdx < context.candidates.length; cellIdx++) {
+            const mask = context.candidates[cellIdx];
+            if (0 !== context.placed[cellIdx] || 1 !== popcount(mask)) continue;
+
+            const [ value ] = maskToValues(mask);
+            return makePlacementStep(context, 'nakedSingle',
+                `${cellName(cellIdx, context.grid)} can only be ${value}.`, cellIdx, value);
+        }
+        return null;
+    },
+
+    parity(context: Context): null | LogicalStep {
+        // Bit `v` is digit `v + 1`, so the odd bits are the even digits.
+        let evenMask = 0;
+        for (let v = 1; v < context.size; v += 2) evenMask |= 1 << v;
+
+        for (const { odd, cells } of context.parities) {
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+            for (const cellIdx of cells) eliminationMasks.set(cellIdx, odd ? evenMask : ~evenMask);
+
+            const step = makeEliminationStep(context, 'parity',
+                `${listCells(cells, context.grid)} must be ${odd ? 'odd' : 'even'}.`,
+                cells, eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    hiddenSingle(context: Context): null | LogicalStep {
+        for (const house of getHouses(context)) {
+            for (let v = 0; v < context.size; v++) {
+                if (house.cells.some(cellIdx => v + 1 === context.placed[cellIdx])) continue;
+
+                const positions = getPositions(context, house.cells, v);
+                if (1 !== positions.length) continue;
+
+                const [ cellIdx ] = positions;
+                return makePlacementStep(context, 'hiddenSingle',
+                    `${v + 1} can only go in ${cellName(cellIdx, context.grid)} in ${house.name}.`, cellIdx, v + 1, house.cells);
+            }
+        }
+        return null;
+    },
+
+    thermo(context: Context): null | LogicalStep {
+        for (const { strict, cells } of context.thermos) {
+            const gap = +strict;
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+
+            // Each cell must be at least the minimum of the previous cell.
+            let min = 0;
+            for (const cellIdx of cells) {
+                const cellMin = Math.max(min, lowestBit(context.candidates[cellIdx]));
+                eliminationMasks.set(cellIdx, (1 << cellMin) - 1);
+                min = cellMin + gap;
+            }
+            // Each cell must be at most the maximum of the next cell.
+            let max = context.size - 1;
+            for (let i = cells.length - 1; 0 <= i; i--) {
+                const cellIdx = cells[i];
+                const cellMax = Math.min(max, highestBit(context.candidates[cellIdx]));
+                eliminationMasks.set(cellIdx, eliminationMasks.get(cellIdx)! | ~((2 << cellMax) - 1));
+                max = cellMax - gap;
+            }
+
+            const step = makeEliminationStep(context, 'thermo',
+                `Digits along the ${strict ? '' : 'slow '}thermometer through ${listCells(cells, context.grid)} must ${strict ? 'increase' : 'not decrease'}.`,
+                cells, eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    whisper(context: Context): null | LogicalStep {
+        for (const { delta, cells } of context.whispers) {
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+            for (let i = 0; i < cells.length; i++) {
+                const neighbors = [ cells[i - 1], cells[i + 1] ].filter(idx => null != idx);
+                let mask = 0;
+                for (let v = 0; v < context.size; v++) {
+                    // Every neighbor must have some candidate at least DELTA away.
+                    const ok = neighbors.every(idx => maskToValues(context.candidates[idx])
+                        .some(value => Math.abs(value - (v + 1)) >= delta));
+                    if (!ok) mask |= 1 << v;
+                }
+                eliminationMasks.set(cells[i], mask);
+            }
+
+            const step = makeEliminationStep(context, 'whisper',
+                `Adjacent digits along the line through ${listCells(cells, context.grid)} must differ by at least ${delta}.`,
+                cells, eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    adjacentPair(context: Context): null | LogicalStep {
+        for (const { rule, cells, allowed } of context.adjacentPairs) {
+            const [ a, b ] = cells;
+            const valuesA = maskToValues(context.candidates[a]);
+            const valuesB = maskToValues(context.candidates[b]);
+
+            // Remove candidates with no partner in the other cell.
+            let maskA = 0;
+            let maskB = 0;
+            for (const valueA of valuesA) {
+                if (!valuesB.some(valueB => allowed(valueA, valueB))) maskA |= 1 << (valueA - 1);
+            }
+            for (const valueB of valuesB) {
+                if (!valuesA.some(valueA => allowed(valueA, valueB))) maskB |= 1 << (valueB - 1);
+            }
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>([ [ a, maskA ], [ b, maskB ] ]);
+
+            const step = makeEliminationStep(context, 'adjacentPair',
+                `The digits in ${listCells(cells, context.grid)} must ${rule}.`,
+                cells, eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    killerCage(context: Context): null | LogicalStep {
+        for (const { sum, cells } of context.killers) {
+            const allowedMasks = getCageAllowedMasks(context, cells, sum);
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+            cells.forEach((cellIdx, i) => eliminationMasks.set(cellIdx, ~allowedMasks[i]));
+
+            const step = makeEliminationStep(context, 'killerCage',
+                `Only some combinations of digits in ${listCells(cells, context.grid)} sum to ${sum}.`,
+                cells, eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    littleKiller(context: Context): null | LogicalStep {
+        for (const { sum, cells } of context.littleKillers) {
+            let min = 0;
+            let max = 0;
+            for (const cellIdx of cells) {
+                min += lowestBit(context.candidates[cellIdx]) + 1;
+                max += highestBit(context.candidates[cellIdx]) + 1;
+            }
+
+            // Each cell must make up the sum with the rest of the diagonal.
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+            for (const cellIdx of cells) {
+                const restMin = min - lowestBit(context.candidates[cellIdx]) - 1;
+                const restMax = max - highestBit(context.candidates[cellIdx]) - 1;
+                eliminationMasks.set(cellIdx, valuesOutside(context.size, sum - restMax, sum - restMin));
+            }
+
+            const step = makeEliminationStep(context, 'littleKiller',
+                `The digits along the diagonal ${listCells(cells, context.grid)} must sum to ${sum}.`,
+                cells, eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    arrow(context: Context): null | LogicalStep {
+        for (const { bulb, bulbWeights, body } of context.arrows) {
+            // Pill bulbs are read as a base 10 number, summed bulbs have weight 1.
+            let bulbMin = 0;
+            let bulbMax = 0;
+            bulb.forEach((cellIdx, i) => {
+                bulbMin += bulbWeights[i] * (lowestBit(context.candidates[cellIdx]) + 1);
+                bulbMax += bulbWeights[i] * (highestBit(context.candidates[cellIdx]) + 1);
+            });
+            let bodyMin = 0;
+            let bodyMax = 0;
+            for (const cellIdx of body) {
+                bodyMin += lowestBit(context.candidates[cellIdx]) + 1;
+                bodyMax += highestBit(context.candidates[cellIdx]) + 1;
+            }
+
+            const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+            if (1 === bulb.length) {
+                eliminationMasks.set(bulb[0], valuesOutside(context.size, bodyMin, bodyMax));
+            }
+            for (const cellIdx of body) {
+                const restMin = bodyMin - lowestBit(context.candidates[cellIdx]) - 1;
+                const restMax = bodyMax - highestBit(context.candidates[cellIdx]) - 1;
+                eliminationMasks.set(cellIdx, valuesOutside(context.size, bulbMin - restMax, bulbMax - restMin));
+            }
+
+            const step = makeEliminationStep(context, 'arrow',
+                `The digits on the arrow ${listCells(body, context.grid)} must sum to the bulb ${listCells(bulb, context.grid)}.`,
+                bulb.concat(body), eliminationMasks);
+            if (null != step) return step;
+        }
+        return null;
+    },
+
+    pointing(context: Context): null | LogicalStep {
+        for (const house of getHouses(context)) {
+            for (const group of context.groups) {
+                if (group === house) continue;
+                const outside = group.cells.filter(cellIdx => !house.cells.includes(cellIdx));
+                if (0 === outside.length || outside.length === group.cells.length) continue;
+
+                for (let v = 0; v < context.size; v++) {
+                    const positions = getPositions(context, house.cells, v);
+                    if (0 === positions.length || !positions.every(cellIdx => group.cells.includes(cellIdx))) continue;
+
+                    const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+                    for (const cellIdx of outside) eliminationMasks.set(cellIdx, 1 << v);
+
+                    const step = makeEliminationStep(context, 'pointing',
+                        `In ${house.name}, ${v + 1} must be in ${group.name}, so it can be removed from the rest of ${group.name}.`,
+                        positions, eliminationMasks);
+                    if (null != step) return step;
+                }
+            }
+        }
+        return null;
+    },
+
+    nakedPair(context: Context): null | LogicalStep {
+        for (let a = 0; a < context.candidates.length; a++) {
+            const mask = context.candidates[a];
+            if (0 !== context.placed[a] || 2 !== popcount(mask)) continue;
+
+            for (const b of context.peers[a]) {
+                if (b <= a || 0 !== context.placed[b] || mask !== context.candidates[b]) continue;
+
+                const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+                for (const cellIdx of context.peers[a]) {
+                    if (cellIdx !== b && context.peers[b].has(cellIdx)) eliminationMasks.set(cellIdx, mask);
+                }
+
+                const [ v0, v1 ] = maskToValues(mask);
+                const step = makeEliminationStep(context, 'nakedPair',
+                    `${cellName(a, context.grid)} and ${cellName(b, context.grid)} must be ${v0} and ${v1}.`,
+                    [ a, b ], eliminationMasks);
+                if (null != step) return step;
+            }
+        }
+        return null;
+    },
+
+    hiddenPair(context: Context): null | LogicalStep {
+        for (const house of getHouses(context)) {
+            for (let v1 = 1; v1 < context.size; v1++) {
+                for (let v0 = 0; v0 < v1; v0++) {
+                    const positions0 = getPositions(context, house.cells, v0);
+                    const positions1 = getPositions(context, house.cells, v1);
+                    if (2 !== positions0.length || 2 !== positions1.length) continue;
+                    if (positions0[0] !== positions1[0] || positions0[1] !== positions1[1]) continue;
+
+                    const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+                    for (const cellIdx of positions0) eliminationMasks.set(cellIdx, ~((1 << v0) | (1 << v1)));
+
+                    const step = makeEliminationStep(context, 'hiddenPair',
+                        `In ${house.name}, ${v0 + 1} and ${v1 + 1} can only go in ${listCells(positions0, context.grid)}.`,
+                        positions0, eliminationMasks);
+                    if (null != step) return step;
+                }
+            }
+        }
+        return null;
+    },
+
+    xWing(context: Context): null | LogicalStep {
+        for (const [ baseType, coverType ] of [ [ 'row', 'column' ], [ 'column', 'row' ] ] as const) {
+            const bases = context.groups.filter(group => baseType === group.type && group.isHouse);
+            if (!context.groups.some(group => coverType === group.type)) continue;
+
+            for (let v = 0; v < context.size; v++) {
+                for (let i = 0; i < bases.length; i++) {
+                    const positionsA = getPositions(context, bases[i].cells, v);
+                    if (2 !== positionsA.length) continue;
+
+                    for (let j = i + 1; j < bases.length; j++) {
+                        const positionsB = getPositions(context, bases[j].cells, v);
+                        if (2 !== positionsB.length) continue;
+
+                        // Index of the cover line (x for columns, y for rows).
+                        const coverOf = (cellIdx: Idx<Geometry.CELL>) => cellIdx2cellCoord(cellIdx, context.grid)['column' === coverType ? 0 : 1];
+                        const covers = positionsA.map(coverOf);
+                        if (covers[0] !== coverOf(positionsB[0]) || covers[1] !== coverOf(positionsB[1])) continue;
+
+                        const eliminationMasks = new Map<Idx<Geometry.CELL>, number>();
+                        for (const cover of covers) {
+                            const coverCells = 'column' === coverType ? getColCellIdxes(cover, context.grid) : getRowCellIdxes(cover, context.grid);
+                            for (const cellIdx of coverCells) {
+                                if (positionsA.includes(cellIdx) || positionsB.includes(cellIdx)) continue;
+                                eliminationMasks.set(cellIdx, 1 << v);
+                            }
+                        }
+
+                        const step = makeEliminationStep(context, 'xWing',
+                            `X-Wing on ${v + 1} in ${bases[i].name} and ${bases[j].name}.`,
+                            positionsA.concat(positionsB), eliminationMasks);
+                        if (null != step) return step;
+                    }
+                }
+            }
+        }
+        return null;
+    },
+} as const;
+
+export type Technique = keyof typeof TECHNIQUES;
+
+/** Difficulty of each technique, used to rate puzzles. */
+export const TECHNIQUE_DIFFICULTY: Record<Technique, number> = {
+    nakedSingle: 1.0,
+    parity: 1.2,
+    hiddenSingle: 1.5,
+    thermo: 2.0,
+    whisper: 2.0,
+    adjacentPair: 2.0,
+    killerCage: 2.5,
+    littleKiller: 2.5,
+    arrow: 2.5,
+    pointing: 2.6,
+    nakedPair: 3.0,
+    hiddenPair: 3.4,
+    xWing: 3.8,
+};
+
+function getHouses(context: Context): Group[] {
+    return context.groups.filter(group => group.isHouse);
+}
+
+/** Returns the unplaced CELLS which may contain V. */
+function getPositions(context: Context, cells: Idx<Geometry.CELL>[], v: number): Idx<Geometry.CELL>[] {
+    return cells.filter(cellIdx => 0 === context.placed[cellIdx] && (context.candidates[cellIdx] & (1 << v)));
+}
+
+function lowestBit(mask: number): number {
+    return 31 - Math.clz32(mask & -mask);
+}
+
+function highestBit(mask: number): number {
+    return 31 - Math.clz32(mask);
+}
+
+/** Mask of all 1-based values not within [ MIN, MAX ]. */
+function valuesOutside(size: number, min: number, max: number): number {
+    let mask = 0;
+    for (let v = 0; v < size; v++) {
+        if (v + 1 < min || max < v + 1) mask |= 1 << v;
+    }
+    return mask;
+}
+
+/**
+ * Finds which candidates of each cage cell appear in some non-repeating assignment summing to SUM.
+ * Since the sum of an assignment is determined by which digits are used, this runs over subsets of digits.
+ */
+function getCageAllowedMasks(context: Context, cells: Idx<Geometry.CELL>[], sum: number): number[] {
+    const allowedMasks = cells.map(() => 0);
+    if (context.size < cells.length) return allowedMasks;
+
+    const numSubsets = 1 << context.size;
+    const subsetSum = new Array<number>(numSubsets).fill(0);
+    for (let used = 1; used < numSubsets; used++) {
+        const v = lowestBit(used);
+        subsetSum[used] = subsetSum[used & (used - 1)] + v + 1;
+    }
+
+    // Forward: which sets of digits can fill the first popcount(used) cells.
+    const reachable = new Uint8Array(numSubsets);
+    reachable[0] = 1;
+    for (let used = 0; used < numSubsets; used++) {
+        if (!reachable[used]) continue;
+        const i = popcount(used);
+        if (cells.length <= i) continue;
+        const options = context.candidates[cells[i]] & ~used;
+        for (let v = 0; v < context.size; v++) {
+            if (options & (1 << v)) reachable[used | (1 << v)] = 1;
+        }
+    }
+
+    // Backward: which sets of digits can be completed to a valid assignment.
+    const completable = new Uint8Array(numSubsets);
+    for (let used = numSubsets - 1; 0 <= used; used--) {
+        if (!reachable[used]) continue;
+        const i = popcount(used);
+        if (cells.length === i) {
+            completable[used] = +(sum === subsetSum[used]);
+            continue;
+        }
+        const options = context.candidates[cells[i]] & ~used;
+        for (let v = 0; v < context.size; v++) {
+            if ((options & (1 << v)) && completable[used | (1 << v)]) {
+                completable[used] = 1;
+                allowedMasks[i] |= 1 << v;
+            }
+        }
+    }
+    return allowedMasks;
+}
@@ -0,0 +1,269 @@
+import { cantAttempt, createContext, findNextStep, getNextHint, rateDifficulty, solveBacktracking, solveLogical, solveTrueCandidatesBacktracking } from "../src/solver-logical";
+import { applyStep } from "../src/context";
+import { fPuzzles } from "@sudoku-studio/board-format";
+import { boardRepr, cellCoords2edgeIdx, diagonalIdx2diagonalCellCoords, getOrthogonallyAdjacentPairs } from "@sudoku-studio/board-utils";
+import { DifficultyRating, Geometry, IdxMap, LogicalStep, schema } from "@sudoku-studio/schema";
+
+function createBoard(givensStr: string): schema.Board {
+    const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+    const givens: Record<number, number> = {};
+    [ ...givensStr ].forEach((c, i) => {
+        if ('.' !== c) givens[i] = +c;
+    });
+    board.elements['10'].value = givens;
+    return board;
+}
+
+async function solveSteps(board: schema.Board): Promise<LogicalStep[]> {
+    const steps: LogicalStep[] = [];
+    const success = await solveLogical(board, step => {
+        if (null != step) steps.push(step);
+    });
+    expect(success).toBeTruthy();
+    return steps;
+}
+
+async function solveAll(board: schema.Board, maxSolutions: number): Promise<string[]> {
+    const solutions: string[] = [];
+    const success = await solveBacktracking(board, maxSolutions, solution => {
+        if (null != solution) solutions.push(Object.values(solution).join(''));
+    });
+    expect(success).toBeTruthy();
+    return solutions;
+}
+
+describe('Logical Solver', () => {
+    test('cantAttempt', () => {
+        const board = createBoard('');
+        expect(cantAttempt(board)).toBeNull();
+
+        board.elements['20'] = { type: 'killer', value: { a: { sum: 72, op: '*', cells: { 0: true, 1: true } } } } as any;
+        expect(cantAttempt(board)).toEqual('Cannot handle arithmetic or repeating cages.');
+        board.elements['20'] = { type: 'killer', value: { a: { sum: 4, repeat: true, cells: { 0: true, 10: true } } } } as any;
+        expect(cantAttempt(board)).toEqual('Cannot handle arithmetic or repeating cages.');
+        board.elements['20'] = { type: 'killer', value: { a: { sum: 3, op: '+', cells: { 0: true, 1: true } } } } as any;
+        expect(cantAttempt(board)).toBeNull();
+
+        board.elements['20'] = { type: 'sandwich', value: {} } as any;
+        expect(cantAttempt(board)).toEqual('Cannot handle "sandwich" element.');
+
+        board.grid.width = 8;
+        expect(cantAttempt(board)).toEqual('Grid is not square.');
+
+        board.grid.width = 9;
+        board.meta.digits = { min: 0, max: 8 };
+        expect(cantAttempt(board)).toEqual('Digits must be 1 to the grid size.');
+    });
+
+    const classicBoards = [
+        // https://en.wikipedia.org/wiki/Sudoku
+        [ 'Wikipedia', '53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79', '534678912672195348198342567859761423426853791713924856961537284287419635345286179', 'nakedSingle' ],
+        [ 'X-Wing', '1.....569492.561.8.561.924...964.8.1.64.1....218.356.4.4.5...169.5.614.2621.....5', '187423569492756138356189247539647821764218953218935674843592716975361482621874395', 'xWing' ],
+        [ 'Pointing', '4.....8.5.3..........7......2.....6.....8.4......1.......6.3.7.5..2.....1.4......', '417369825632158947958724316825437169791586432346912758289643571573291684164875293', 'pointing' ],
+    ];
+
+    test.each(classicBoards)('"%s"', async (_name, givensStr, solnStr, technique) => {
+        const steps = await solveSteps(createBoard(givensStr));
+        expect(steps.map(step => step.technique)).toContain(technique);
+
+        const soln = Array.from(givensStr, c => '.' === c ? 0 : +c);
+        for (const step of steps) {
+            for (const [ cellIdx, value ] of Object.entries(step.placements)) {
+                soln[+cellIdx] = value!;
+            }
+        }
+        expect(soln.join('')).toEqual(solnStr);
+    });
+
+    test('next hint', async () => {
+        const board = createBoard('53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79');
+
+        let hint = null as null | LogicalStep;
+        expect(await getNextHint(board, step => hint = step)).toBeTruthy();
+        expect(hint).toEqual({
+            technique: 'nakedSingle',
+            description: 'r5c5 can only be 5.',
+            cells: [ 40 ],
+            placements: { 40: 5 },
+            eliminations: { 30: [ 5 ], 37: [ 5 ], 38: [ 5 ], 42: [ 5 ], 43: [ 5 ], 48: [ 5 ], 58: [ 5 ] },
+        });
+    });
+
+    test('rate difficulty', async () => {
+        const ratings: DifficultyRating[] = [];
+        for (const givensStr of [
+            '53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79',
+            '1.....569492.561.8.561.924...964.8.1.64.1....218.356.4.4.5...169.5.614.2621.....5',
+            '',
+        ]) {
+            expect(await rateDifficulty(createBoard(givensStr), rating => ratings.push(rating))).toBeTruthy();
+        }
+
+        expect(ratings[0]).toEqual({ score: 1, hardestTechnique: 'nakedSingle', techniqueCounts: { nakedSingle: 51 }, solved: true });
+
+        expect(ratings[1].hardestTechnique).toEqual('xWing');
+        expect(ratings[1].techniqueCounts.xWing).toEqual(1);
+        expect(ratings[1].score).toBeGreaterThan(ratings[0].score);
+
+        expect(ratings[2]).toEqual({ score: 0, hardestTechnique: null, techniqueCounts: {}, solved: false });
+    });
+
+    test('killer cage', async () => {
+        const board = createBoard('');
+        board.elements['20'] = { type: 'killer', value: { a: { sum: 3, cells: { 0: true, 1: true } } } } as any;
+
+        let hint = null as null | LogicalStep;
+        await getNextHint(board, step => hint = step);
+        expect(hint!.technique).toEqual('killerCage');
+        expect(hint!.eliminations).toEqual({ 0: [ 3, 4, 5, 6, 7, 8, 9 ], 1: [ 3, 4, 5, 6, 7, 8, 9 ] });
+    });
+
+    test('thermo', async () => {
+        const board = createBoard('');
+        board.elements['20'] = { type: 'thermo', value: { a: { 0: 9, 1: 10, 2: 11, 3: 12, 4: 13, 5: 14, 6: 15, 7: 16, 8: 17 } } } as any;
+
+        const context = createContext(board);
+        for (let step = findNextStep(context); null != step; step = findNextStep(context)) {
+            applyStep(context, step);
+        }
+        expect(context.placed.slice(9, 18)).toEqual([ 1, 2, 3, 4, 5, 6, 7, 8, 9 ]);
+    });
+
+    test('odd and even', () => {
+        const board = createBoard('');
+        board.elements['20'] = { type: 'odd', value: { 0: true } } as any;
+        board.elements['21'] = { type: 'even', value: { 1: true } } as any;
+        expect(cantAttempt(board)).toBeNull();
+
+        const context = createContext(board);
+        for (let step = findNextStep(context); null != step && 'parity' === step.technique; step = findNextStep(context)) {
+            applyStep(context, step);
+        }
+        expect(context.candidates[0]).toEqual(0b101010101);
+        expect(context.candidates[1]).toEqual(0b010101010);
+    });
+
+    test('adjacent pair', async () => {
+        // r1c1 is 5, and r1c2 differs from it by 1.
+        const board = createBoard('5');
+        board.elements['20'] = { type: 'difference', value: { [cellCoords2edgeIdx([ 0, 0 ], [ 1, 0 ], board.grid)!]: true } } as any;
+        expect(cantAttempt(board)).toBeNull();
+
+        let hint = null as null | LogicalStep;
+        await getNextHint(board, step => hint = step);
+        expect(hint!.technique).toEqual('adjacentPair');
+        expect(hint!.eliminations).toEqual({ 1: [ 1, 2, 3, 7, 8, 9 ] });
+    });
+
+    test('little killer', async () => {
+        const [ _name, givens, soln ] = classicBoards[0];
+        const board = createBoard(givens);
+        const diagonalSum = diagonalIdx2diagonalCellCoords(0, board.grid).reduce((sum, [ x, y ]) => sum + +soln[9 * y + x], 0);
+
+        board.elements['20'] = { type: 'littleKiller', value: { 0: diagonalSum } } as any;
+        expect(cantAttempt(board)).toBeNull();
+        expect(await solveAll(board, 2)).toEqual([ soln ]);
+
+        board.elements['20'] = { type: 'littleKiller', value: { 0: diagonalSum + 1 } } as any;
+        expect(await solveAll(board, 2)).toEqual([]);
+    });
+
+    test('negative XV', async () => {
+        const [ _name, givens, soln ] = classicBoards[0];
+        const board = createBoard(givens);
+        const value: IdxMap<Geometry.EDGE, number> = {};
+        for (const [ a, b ] of getOrthogonallyAdjacentPairs(board.grid)) {
+            const sum = +soln[9 * a[1] + a[0]] + +soln[9 * b[1] + b[0]];
+            if (5 === sum || 10 === sum) value[cellCoords2edgeIdx(a, b, board.grid)!] = sum;
+        }
+
+        board.elements['20'] = { type: 'xv', value, negative: true } as any;
+        expect(await solveAll(board, 2)).toEqual([ soln ]);
+
+        // Removing a clue makes the solution break the negative constraint.
+        delete value[+Object.keys(value)[0]];
+        expect(await solveAll(board, 2)).toEqual([]);
+    });
+});
+
+describe('Backtracking Solver', () => {
+    test('unique solution', async () => {
+        const board = createBoard('4.....8.5.3..........7......2.....6.....8.4......1.......6.3.7.5..2.....1.4......');
+        expect(await solveAll(board, 2)).toEqual([ '417369825632158947958724316825437169791586432346912758289643571573291684164875293' ]);
+    });
+
+    test('multiple solutions', async () => {
+        const solutions = await solveAll(createBoard(''), 3);
+        expect(solutions.length).toEqual(3);
+        expect(new Set(solutions).size).toEqual(3);
+    });
+
+    test('conflicting givens', async () => {
+        expect(await solveAll(createBoard('11'), 2)).toEqual([]);
+    });
+
+    test('cancelled', async () => {
+        const cancellationToken = { cancelled: true } as const;
+        expect(await solveBacktracking(createBoard(''), 1000, () => {}, cancellationToken)).toBeFalsy();
+    });
+
+    test('true candidates', async () => {
+        // Wikipedia puzzle with r1c1 and r1c2 removed, which has a few solutions.
+        const board = createBoard('....7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79');
+
+        const results: IdxMap<Geometry.CELL, Map<number, number>>[] = [];
+        const success = await solveTrueCandidatesBacktracking(board, candidates => {
+            if (null != candidates) results.push(candidates);
+        });
+        expect(success).toBeTruthy();
+
+        const final = results[results.length - 1];
+        const solutions = await solveAll(board, 100);
+        expect(solutions.length).toBeGreaterThan(1);
+        for (let cellIdx = 0; cellIdx < 81; cellIdx++) {
+            const counts = new Map<number, number>();
+            for (const solution of solutions) {
+                counts.set(+solution[cellIdx], 1 + (counts.get(+solution[cellIdx]) || 0));
+            }
+            expect(final[cellIdx]).toEqual(counts);
+        }
+    });
+});
+
+describe('Logical Solver FPuzzles', () => {
+    // Steps must never contradict the unique solution, even if the solver gets stuck.
+    const boards = [
+        // "Clipped" by glum_hippo: Arrow, Thermo, Givens, King
+        [ "Clipped", "N4IgzglgXgpiBcBOANCALhNAbO8QGEsIAHYmAExFQEMBXNACwHsAnBEABQYiNIAIAQlloBbGH2oBranwDmwkQH1upJlRAtaOMDDTsAyrXJNJtPgFo+MAG4wWATz4smAd2R8AxkwUA7d9R9yPgBmAA9gvgAjJlC+EVowNE8mHzRqCB8JLCw+RnFyCFlMMD4AM2cRPgBGc0QAOj59JjE+AqK0EuoWcWosbupyRyLbHzqAHR8JgEFUiHMAaQzZCysAR1pe1sLiuOpHHyYktCZaDwYt6lkU3qx7ccmfABUGOxFm3TsVtp34xL5ElgQDzYRwZDz9HRlCpRLSRXJMXIke7TFjOFwrPKeCAsDw4ILfJJeHyJTD0GAlTFgUR8JilXIvLbtTpYFLLTFdNH3dSyQGUeAAbX5wAAvsgRWLReKpZKZRKALrIIWy6US1UqkUKpVq5Ugay9Wi4ABsqGGMB8CDQmhgyptmvVNu12rtOr1wlwAFYTRARharS79bgql6ffBLQb/W6EAAWYNm33hp2K+2O5MapMOqW6gMIYKx82hv0pmXOoul6Ul1MZ4sKkABDCSJbxmCoPIsN5iNB2BBCkBEHzk7v8kAAJUN+Hd6mHAHZ8FHJwAOfDBBf4ABMIDlcslvYyA4FQ+H7rXk6jS8nwVnk9Xl83277e8FI9PE9Qw4vhqv+Cnn/nG63Yp3fswEHEcj1/V8x2/V8Zw/V9Fw/W8aw5Vxu1Ae9gP3UDL1fU9l1fC911fa9103VAPBgbIMIPI853/NDdyo6j8FgkdIMnGdwJHRdf1IkByMo7ssIQu8GJA4dFxfEcZznCCz1kkia34rAqK48cNxEoCxOvSS32Yk8v30njFIo5TBOHbT1IA9CxJnPDVJkkdEDU3ilJU6czy3LcgA=", "867452931342891675519763284984327156635918427721645398498536712276189543153274869" ],
+        // "Self-contained" by Lavaloid (killer, knight)
+        [ "Self-contained", "N4IgzglgXgpiBcBOANCALhNAbO8QGUYsAzAWgGMB7AOzQEMJqYATEVOgVzQAtKAnBCAAydAG50slCK1R8OOMDDSCA1AAIAcvwC2EtWA7NKAaw5q5CtXQAO1rAE8AdAB1qAUVEw+985QDuyGpUWBza1IF01MxqAMwAHjFqAEaUcUE09IxgVlhYaswQAOaY2cR8lNpqAIxqaJRqiC7UruoAgrQQxtRF3Gjm8jBWtlgQMGBNACJFJfow1nR8dGgsyT50Qdxj2V09aADk2dqUnmq6PtSUfUmD0jAd5BJNLWoA0hC5Xv04Q3aj465TYpobKMKxBOiFQbaDhgPoGSp1WqbNTUULXPhqPx8TDLahqUE8QZ1axqHDENCONSAmbQ2Eoy7mOYwJb4vHrB6QxxsECFbGseAAbQFwAAvshReKxRLpVLZZKALrIYVymWStWq0WK5XqkDkQQAYgmAAZjQAxU0gKW6g3Gs0Wq16vCGk1G82W8XWp22132j2OkDOu3umVajWegPet0Om0uqN+mNB6Ne2O+0D+wM+4Oy0Mq8MZuNphOZpMRlPBvOR1MVssqkU5nXpyvlxs1+PJxNt0sdwvt4vqutKsMt7vVkfDvs9rsT0cT7OD2v9xch+dLhcauuKkCRDA7Qq9BBoOQwVDGd44Pgc3DC3VELBgBACkAAJQAbABhGLcp8Adg/X9/AAsICbuIIS4CAABMn4Ore96Cs+AF/qgT6IUByGIQArMBqCgRw4FQc2sEPs+MRISRb5ASBEh4YIAAchG5HBj5PhhZEsRRX7vpROHUeBVRYTBjHEexWHIe+onPu+L7YSAuF8YgDF3sJiHfl+rHSchrGqVRYGCFUQGCUp8FPqREkmW+Gnkap6EWTJcl6QJfpEcZv5mb+0k6TReD0YZTGSW+1nPr+2k8bpeDSXWIpAA===", "653418279174259863982673451528961347317542986496387512769835124831724695245196738" ],
+        // "Alien" by Lisztes (Whispers, Thermo)
+        [ "Alien", "N4IgzglgXgpiBcBOANCALhNAbO8QEEsIYA7EVAQwFc0ALAewCcEQAZCMKNGMckRqjjAw0LAJIkABGAAOFAMYxJJepPokl8ilNowKjSQE96VAHTnJAd1ocZMRqYA6JZwDkmAWwpZJAZSoAJvQA1lSSAkKSFDIyWIamkgCiCrTh9JbIkvL0WFQeUtoBkgDMAB7FkgBG9KVZ6mgUECRgknryqSR5lfaSAGaM9B6SAIySaKqIraUK2IZqJIpOLiQA4vZeUgDqNrI9/kGh4YI8UTFxCQAqlqqKWFgt2SQa8txFlXMUkkQakgAUMJhdAYAOaMGBzJiSUEwUgASkkHioYDQkloFAAbkpPgEIL1evZSIo1L0+hBMWoDB4mEpumhLDCpHQAQYccDMGAls4LrpJE0YABHKjeTBzSDA5pVET00hja5ZGB3FpgBiWKw2drzTT1RoSplfdL2AD0NmBQMkrMwpj4oIgAQQAG17aA2ZiSAAFQkQLAAWX0wV48E6dwAvshnWTSB6Fl7fYx/Qgg1hQ+HXVH5DG/QHE8mQC7I56fZmE4Ik2HcxH3QXY/HAyWc3nK9HC3Gs3Wyw20xmW8WQ+2K53mzXs33U1Wi7WQwBdZBO8ujpvV1u9lP5hfj4crxvpwdL0ubgeLnt7uer7eHifHjtj7sX+v969Dtv7h+7u/zs/ruvT2dXtc3jcnluXaPsugEHp+oG/h+/5PiA6LeFQuDDKgDYIGgAgwCh95/iBl7YdBuFvqewGviOxE7keRFARRt7fs+OGkfRBGMWBL6UWR1HngBUEkexTG8beHHgTBkH4QJ3FiTR2Z0axDF8bJzHyfBuS4CggFoRhWHvuJsE8VJumSVxBnafpoHKYhCAAOxaaQGmITZnEQXhJlGaJLlOcGMl6a5znkT5VHCYRQlsYJ/Gmb5jkiRFgUsd5HnBXJtEzmF/kJYpoUKTpbl+fFoDmapDl2ZhmXhQFIUSe5UVlYlFU5VVXmGblJWpSlTVxVVaVZdF5XGXVQWtR1A2EQ1lX9c1bWNYN41Te1Y2zbFk1zYtC2ja+k7TugQJUh4Ij2A6oDfDwDr2iAABKABMADCxR8KdwzXSA62eag1i2PYAazodH0nXdl3DLd93nY9k45l9x1nfdN2oL9AAswOg3y30Q5dABsAOXZZ8NlmD8COsjAAc6OIFjB2I+Dp0w39t3FFT0NXUD0M01DZ2UzdT3Y2TuM/VdmOMxjt2U7zLOXYT0OU8T7OkxoSOnZZl0M2dcv/dD+O02dqtA5LIA43jp2q8rZ2IGrp1G5rIMc9L5Oq3D0NG3DWs6z9qto7bqMk9rnO65TACst3e5dvvQyjAfu47hv8yrEeK1Hesi7dRvE5HifRxLIMbdwpSiLjoC3PcDpnVdzO/WzqD5SwAB8fC9PUl0sAAxAADE3zd8JAsAIA3piWd7lAkMCOAIIgDfPSAOJgBQlQ4AEWD0Gy8gOunGFaCQOIBBQ3BgPQMgYOoH0bYd+0e5bXPIwbv1m6gJjYHytd4HXKMN5dDcP3wli2nQHemMUqAcK4MCWJdXe6EdRZ3QohBGx9daQ3RvbDaV9Dq3xAPfR+z8G6v3frQT+38QC/3/oA5owCmigIwhAo6J9fou2Rpjdal8aAIPrg/J+L8XoYKwT/MAf8AFAMYCAoqpCZb3VFsjVOtDr4aEQcgphaCWEBA/vATu2DcFcIITwohfCLZkK9sbGmZ96bUwemLB6NCQDwJvgwlBzCQBv1kZg+RX92GcPwciVRJBiHgI0TLHm+ihYUxjpTIRviREmLoWYu+jDUHoJsWwnBHC8HcN4fAMBMB+HkzlgrWWxt9a3Q1sDUR9CwkWOkVY1hdjFGxOUc4hJSSUnkKya7M+ptcnBLETACR4TLHWLkQohxcSVFVJIR4q2l0bbh1gXk0JSD2lFM6bY7pMTHHxLUYkgZUtNFOzdq7NGxjTHiPMVIyJXT7HzN6ZUpZ1TBnkJ9n7EOQcQ7bJCbsgp+yZGHLKQsvpZyVlHzWeHHxqsfFyz+XHV2ydY6grlkEnZrS9kRJebMo5SinGENcXwkGQA==", "497258316512936478836714925381675294659423781724189563163592847945867132278341659" ],
+        // "A Kind of Magic" by Philip Newman and ryokousha (2-cell Thermos)
+        [ "A Kind of Magic", "N4IgzglgXgpiBcBOANCALhNAbO8QEEACAaQgDsATQgewDNCBZAQwHMIBjEVJgVzQAtqAJwQgACvwhYIAB0IA5GAHcAtkzKF1VIQE9qAa2o8w/JlxBCeOMDDSj5wtVkIBlHhQM9Cl65pkysHQA6QgAdMgARCDY0MBoNARghFWoVWyS4lWM0QnJ2IRgmG0JaIVTCRMIAIysqiuoK/hgK2SDzFiEICgQAbR7QNgA3GDIxEfYpZiF9MAQyKywAX2QBiGHR8cmmadn4eawllZAhkbGyCawpmbmF5dX1s4ur3f3D+9PNy+3rvdujk425y2OxuBzuxzWHyBXxBvzB/0hgKe3xef3eSOBP1eiwAush+hCHp9nqC3oSocjYdiEUToSS4WSAY9Maj4ejmTCsWjyRjOazGYiOfTqeziSjSeCmWKqbc8QSpXTxQzJYLpVy2TyhUqRZq1fyVbTKeqBYaWRKaRSzcqLbzhdyFUb9XLRYqZRqHVadR6+eaXY7fbrXcaDZafda/Z77aqg/qbVq3UtnYH/eHk5H3dGU17M+mTaG7RnTWHs0WC3nbdqo6XK2Ck96yyGKwnG/Hg3G9QH6zXy63YxHi1X892Wx3lXWcwPC0Pm+2Y52Jw3Z1nB022/3F+vh0vc7j8ZuZ/u12nJz3RyXp0euwfjxub1vD0693fr1fLwv78+39WX++f9+vxefafk6eLoE0ySpOkIjwAS0hkDAux9CAABKACMADCAAs5jIQATFhIA4ji4JwQhvQ9ChiAEagyEABwEURJHkGRMEUchADs6EAGw4Zx7GEcRRykYhbFUfxNH0TxjFCcxIkoRhuE4fhADMAlMfBcnIcp6GKTR+GoWpMkaeRKGYTpOEAKzoQZ0mgMJJnIVx5k0VZqm2SA9msShnG6Sh9E2YJdmyQ5VG+XR6FuYFHnBV5WncUp6EWYZQXGbFTk8S5iXJdFqVIchVEZX5WXuZ5eUYbRCX8SVMV5dpFV6ehiDZaVbFmfVKFWVVUUtShTntchVlNdVuVsZx/X0V16ksXlVHjY1amgRQEBgEwVQ4BQWDUGwnAwSA7DUGQaBCEwS3sBgB2zKBR08DA7BaF0TBoAh1AyOdZCIXt1CbQU3TEUAA==", "953218746816374529274956381621749835385162497749835162132687954497523618568491273" ],
+    ];
+
+    test.each(boards)('"%s"', async (_name, board64, solnStr) => {
+        const board = fPuzzles.parseFpuzzles(board64, (type, value) => ({ type, value } as any));
+
+        const reason = cantAttempt(board);
+        expect(reason).toBeNull();
+
+        const steps = await solveSteps(board);
+        expect(steps.length).toBeGreaterThan(0);
+        for (const step of steps) {
+            for (const [ cellIdx, value ] of Object.entries(step.placements)) {
+                expect(value).toEqual(+solnStr[+cellIdx]);
+            }
+            for (const [ cellIdx, values ] of Object.entries(step.eliminations)) {
+                expect(values).not.toContain(+solnStr[+cellIdx]);
+            }
+        }
+    });
+
+    // "A Kind of Magic" has no givens and needs too deep a search without clause learning.
+    test.each(boards.filter(([ name ]) => 'A Kind of Magic' !== name))('"%s" backtracking', async (_name, board64, solnStr) => {
+        const board = fPuzzles.parseFpuzzles(board64, (type, value) => ({ type, value } as any));
+        expect(await solveAll(board, 2)).toEqual([ solnStr ]);
+    }, 60_000);
+});
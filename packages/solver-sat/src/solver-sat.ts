@@ -1,13 +1,24 @@
 import { load as loadCryptoMiniSat, lbool, Module } from '@sudoku-studio/cryptominisat';
 import loadPbLib from '@sudoku-studio/pblib';
-import { arrayObj2array, cellCoord2CellIdx, cellIdx2cellCoord, cornerCoord2cellCoords, cornerIdx2cornerCoord, diagonalIdx2diagonalCellCoords, edgeIdx2cellIdxes, getBorderCellPairs, getMajorDiagonal, idxMapToKeysArray, kingMoves, knightMoves, getOrthogonallyAdjacentPairs, product, seriesIdx2CellCoords, solutionToString } from '@sudoku-studio/board-utils';
-import { ArrayObj, Coord, Geometry, Grid, IdxMap, schema } from '@sudoku-studio/schema';
+import { arrayObj2array, cellCoord2CellIdx, cellCoords2edgeIdx, cellIdx2cellCoord, cornerCoord2cellCoords, cornerIdx2cornerCoord, diagonalIdx2diagonalCellCoords, edgeIdx2cellIdxes, evalCageOperator, getArrowBulbWeights, getBorderCellPairs, getDigitSet, getGridHouses, getGridRegions, getLineClasses, getLineDelta, getMajorDiagonal, getMirroredCells, getRegionSegments, idxMapToKeysArray, isCellActive, kingMoves, knightMoves, getOrthogonallyAdjacentPairs, product, seriesIdx2CellCoords, taxicabMoves } from '@sudoku-studio/board-utils';
+import { ArrayObj, Coord, Geometry, Grid, Idx, IdxBitset, IdxMap, schema } from '@sudoku-studio/schema';
 
 type Context = {
     clauses: number[][],
+    /** Number of digits, not necessarily the width or height of the grid. */
     size: number,
+    /** Value of the digit at index `v = 0`, digits are consecutive from here. */
+    minDigit: number,
+    /** If cells may be blank, represented by index `v = size`. */
+    blanks: boolean,
     grid: Grid,
+    /** Regions of the board's gridRegion elements, for constraints which depend on them. */
+    regions: IdxBitset<Geometry.CELL>[],
+    /** If regions are solved for (chaos construction) instead of given by the gridRegion element. */
+    chaos: boolean,
     getLiteral: (y: number, x: number, v: number) => number,
+    /** Literal for cell CELL_IDX being in region K, set once chaos construction is encoded. */
+    getRegionLiteral: null | ((cellIdx: number, k: number) => number),
     pbLib: ReturnType<typeof loadPbLib> extends Promise<infer T> ? T : never,
 };
 
@@ -31,27 +42,140 @@ export type CancellationToken = {
 };
 
 export function cantAttempt(board: schema.Board): null | string {
-    if (board.grid.width !== board.grid.height) {
-        return 'Grid is not square.';
-    }
+    const { min, max } = getDigitSet(board);
+    for (const element of Object.values(board.elements)) {
+        if (!(element.type in ELEMENT_HANDLERS)) {
+            return `Cannot handle ${JSON.stringify(element.type)} element.`;
+        }
+        if ('disjointGroups' === element.type && element.value
+            && Object.values(board.elements).some(({ type, value }) => 'chaosConstruction' === type && value))
+        {
+            return 'Disjoint groups cannot be combined with chaos construction.';
+        }
+        if ('killer' === element.type) {
+            for (const { sum, op, repeat, cells } of Object.values((element as schema.KillerElement).value || {})) {
+                if ('number' !== typeof sum || null == op || '+' === op) continue;
 
-    for (const { type } of Object.values(board.elements)) {
-        if (!(type in ELEMENT_HANDLERS)) {
-            return `Cannot handle ${JSON.stringify(type)} element.`;
+                const numCells = idxMapToKeysArray(cells || {}).length;
+                if (('-' === op || '/' === op) && 2 !== numCells) {
+                    return 'Difference and quotient cages must have two cells.';
+                }
+                if (MAX_CAGE_OPERATOR_ASSIGNMENTS < countCageAssignments(max - min + 1, numCells, !!repeat)) {
+                    return 'Cannot handle product cages this large.';
+                }
+            }
         }
     }
     return null;
 }
 
+function createContext(board: schema.Board, pbLib: Context['pbLib']): Context {
+    const { min, max, blanks } = getDigitSet(board);
+    const size = max - min + 1;
+    const numSlots = getNumSlots({ size, blanks });
+    const { width } = board.grid;
+    return {
+        clauses: [],
+        size,
+        minDigit: min,
+        blanks,
+        grid: board.grid,
+        regions: getGridRegions(board.elements),
+        chaos: Object.values(board.elements).some(({ type, value }) => 'chaosConstruction' === type && value),
+        getLiteral: (y, x, v) => 1 + (y * width + x) * numSlots + v,
+        getRegionLiteral: null,
+        pbLib,
+    };
+}
+
+/** Number of literals per cell: one per digit, plus one if the cell may be blank. */
+function getNumSlots({ size, blanks }: Pick<Context, 'size' | 'blanks'>): number {
+    return size + +blanks;
+}
+
+/** An element just encoded by encodeElements. Its clauses are `context.clauses` from CLAUSES_START. */
+type ElementEncoding = {
+    id: string,
+    element: schema.Element,
+    prevNumLits: number,
+    numLits: number,
+    clausesStart: number,
+    encodeMillis: number,
+};
+
+/**
+ * Encodes ELEMENTS into CONTEXT using ELEMENT_HANDLERS, allocating literals after NUM_LITS. ON_ENCODED is called
+ * after each element, and may return a new number of literals to allocate more.
+ * Returns the number of literals, or null if cancelled.
+ */
+function encodeElements(numLits: number, elements: schema.Board['elements'], context: Context,
+    onEncoded: null | ((encoding: ElementEncoding) => void | number) = null,
+    cancellationToken: CancellationToken = {}): null | number
+{
+    for (const [ id, element ] of Object.entries(elements)) {
+        if (cancellationToken.cancelled) return null;
+
+        const handler: null | ((numLits: number, element: schema.Element, context: Context) => number) =
+            ELEMENT_HANDLERS[element.type as keyof typeof ELEMENT_HANDLERS] as any;
+        if (undefined === handler) console.warn(`Ignoring constraint: ${element.type}`);
+        if (null == handler) continue;
+
+        const start = Date.now();
+        const prevNumLits = numLits;
+        const clausesStart = context.clauses.length;
+        numLits = handler(numLits, element, context);
+        if (null != onEncoded) {
+            numLits = onEncoded({ id, element, prevNumLits, numLits, clausesStart, encodeMillis: Date.now() - start }) ?? numLits;
+        }
+    }
+    return numLits;
+}
+
+/**
+ * Reads the solution from the solver MODEL, along with a clause which excludes it. With chaos construction, also
+ * reads the region of each cell, and only excludes this combination of digits and regions.
+ */
+function readModel(model: Uint8Array, context: Context): {
+    solution: IdxMap<Geometry.CELL, number>,
+    regions?: IdxMap<Geometry.CELL, number>,
+    excludeSolutionClause: number[],
+} {
+    const solution: IdxMap<Geometry.CELL, number> = {};
+    const excludeSolutionClause: number[] = [];
+    for (const [ y, x, v ] of product(context.grid.height, context.grid.width, getNumSlots(context))) {
+        const literal = context.getLiteral(y, x, v);
+        const litVal = model[literal - 1];
+        if (lbool.TRUE === litVal) {
+            excludeSolutionClause.push(-literal);
+            // Blank cells are left out of the solution.
+            if (context.size === v) continue;
+
+            const cellIdx = cellCoord2CellIdx([ x, y ], context.grid);
+            if (undefined !== solution[cellIdx]) throw 'INVALID';
+            solution[cellIdx] = context.minDigit + v;
+        }
+    }
+    if (null == context.getRegionLiteral) return { solution, excludeSolutionClause };
+
+    const regions: IdxMap<Geometry.CELL, number> = {};
+    for (const [ cellIdx, k ] of product(context.grid.width * context.grid.height, context.size)) {
+        const literal = context.getRegionLiteral(cellIdx, k);
+        if (lbool.TRUE === model[literal - 1]) {
+            excludeSolutionClause.push(-literal);
+            regions[cellIdx] = k;
+        }
+    }
+    return { solution, regions, excludeSolutionClause };
+}
+
 async function solveHelper(
     sat: Module,
     numLits: number,
     context: Context,
-    size: number,
     maxSolutions: number,
     additionalClauses: number[][],
     cancellationToken: CancellationToken,
-    onSolutionFound: (solution: IdxMap<Geometry.CELL, number>) => void,
+    onSolutionFound: (solution: IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void,
     onComplete: () => void,
 ): Promise<boolean> {
     // Create solver instance.
@@ -78,21 +202,8 @@ async function solveHelper(
                 break;
 
             // SOLVED!
-            const model = sat.cmsat_get_model(satSolverPtr);
-            const solution: IdxMap<Geometry.CELL, number> = {};
-            const excludeSolutionClause: number[] = [];
-            for (const [ y, x, v ] of product(size, size, size)) {
-                const literal = context.getLiteral(y, x, v);
-                const litVal = model[literal - 1];
-                if (lbool.TRUE === litVal) {
-                    const cellIdx = cellCoord2CellIdx([ x, y ], context.grid);
-                    if (undefined !== solution[cellIdx]) throw 'INVALID';
-
-                    excludeSolutionClause.push(-literal);
-                    solution[cellIdx] = 1 + v;
-                }
-            }
-            onSolutionFound(solution);
+            const { solution, regions, excludeSolutionClause } = readModel(sat.cmsat_get_model(satSolverPtr), context);
+            onSolutionFound(solution, regions);
 
             sat.cmsat_add_clause(satSolverPtr, excludeSolutionClause.map(literalToCms));
         }
@@ -106,34 +217,21 @@ async function solveHelper(
     }
 }
 
+/**
+ * Finds up to MAX_SOLUTIONS solutions of BOARD, then calls ON_SOLUTION_FOUND_OR_COMPLETE with null. With chaos
+ * construction, each solution comes with the region index of each cell.
+ */
 export async function solve(board: schema.Board, maxSolutions: number,
-    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void,
+    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void,
     cancellationToken: CancellationToken = {}): Promise<boolean>
 {
     const pbLib = await pbLibPromise;
 
-    const size = board.grid.width;
-    const context: Context = {
-        clauses: [],
-        size,
-        grid: board.grid,
-        getLiteral: (y, x, v) => 1 + y * size * size + x * size + v,
-        pbLib,
-    }
+    const context = createContext(board, pbLib);
 
-    const numBaseVars = Math.pow(context.size, 3);
-    let numLits = numBaseVars;
-
-    for (const element of Object.values(board.elements)) {
-        if (cancellationToken.cancelled) return false;
-
-        const handler: null | ((numLits: number, element: schema.Element, context: Context) => number) =
-            ELEMENT_HANDLERS[element.type as keyof typeof ELEMENT_HANDLERS] as any;
-        if (undefined === handler) console.warn(`Ignoring constraint: ${element.type}`);
-        if (null != handler) {
-            numLits = handler(numLits, element, context);
-        }
-    }
+    const numBaseVars = board.grid.width * board.grid.height * getNumSlots(context);
+    const numLits = encodeElements(numBaseVars, board.elements, context, null, cancellationToken);
+    if (null == numLits) return false;
 
     const sat = await cryptoMiniSatPromise;
 
@@ -141,7 +239,6 @@ export async function solve(board: schema.Board, maxSolutions: number,
         sat,
         numLits,
         context,
-        size,
         maxSolutions,
         [],
         cancellationToken,
@@ -150,73 +247,213 @@ export async function solve(board: schema.Board, maxSolutions: number,
     );
 }
 
-function updateValidCandidatesForSolutions(
-    solutions: IdxMap<typeof Geometry.CELL, number>[],
-    validCandidates: IdxMap<Geometry.CELL, Map<number, number>>,
-    foundSolutions: Record<string, boolean>,
-    grid: Grid,
-    size: number,
-) {
-    for (const solution of solutions) {
-        const representation = solutionToString(solution, grid);
-        if (representation in foundSolutions) continue;
+/**
+ * Encodes BOARD as a DIMACS CNF string, for use with other SAT solvers or model counters.
+ * The comment header maps the cell digit variables back to cells and digits.
+ */
+export async function toDimacs(board: schema.Board): Promise<string> {
+    const pbLib = await pbLibPromise;
+
+    const context = createContext(board, pbLib);
+
+    const numSlots = getNumSlots(context);
+    const numLits = encodeElements(board.grid.width * board.grid.height * numSlots, board.elements, context)!;
+
+    const maxDigit = context.minDigit + context.size - 1;
+    const lines = [
+        `c Sudoku Studio board encoding.`,
+        `c Grid ${board.grid.width}x${board.grid.height}, digits ${context.minDigit}-${maxDigit}${context.blanks ? ' or blank' : ''}.`,
+        `c Variable 1 + (y * ${board.grid.width} + x) * ${numSlots} + v is true if the cell in row y + 1, column x + 1`,
+        `c (zero-indexed y, x) contains digit ${context.minDigit} + v${context.blanks ? `, or is blank if v = ${context.size}` : ''}.`,
+        `c Variables after ${board.grid.width * board.grid.height * numSlots} are auxiliary.`,
+    ];
+    for (const [ y, x ] of product(board.grid.height, board.grid.width)) {
+        const first = context.getLiteral(y, x, 0);
+        const last = context.getLiteral(y, x, numSlots - 1);
+        lines.push(`c r${y + 1}c${x + 1}: ${first}-${last}`);
+    }
+    lines.push(`p cnf ${numLits} ${context.clauses.length}`);
+    for (const clause of context.clauses) {
+        lines.push(`${clause.join(' ')} 0`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+export type EncodingStats = {
+    /** Time spent in ELEMENT_HANDLERS, in milliseconds. */
+    encodeMillis: number,
+    numLiterals: number,
+    numClauses: number,
+};
+
+/**
+ * Encodes BOARD and reports its size and how long encoding took, in total and for each element type.
+ */
+export async function getEncodingStats(board: schema.Board): Promise<EncodingStats & { elements: Record<string, EncodingStats> }> {
+    const pbLib = await pbLibPromise;
+
+    const context = createContext(board, pbLib);
+
+    const elements: Record<string, EncodingStats> = {};
+    const numLits = encodeElements(board.grid.width * board.grid.height * getNumSlots(context), board.elements, context,
+        ({ element, prevNumLits, numLits, clausesStart, encodeMillis }) => {
+            const stats = elements[element.type] || (elements[element.type] = { encodeMillis: 0, numLiterals: 0, numClauses: 0 });
+            stats.encodeMillis += encodeMillis;
+            stats.numLiterals += numLits - prevNumLits;
+            stats.numClauses += context.clauses.length - clausesStart;
+        })!;
+
+    return {
+        encodeMillis: Object.values(elements).reduce((total, { encodeMillis }) => total + encodeMillis, 0),
+        numLiterals: numLits,
+        numClauses: context.clauses.length,
+        elements,
+    };
+}
 
-        for (let cellIndex = 0; cellIndex < size * size; cellIndex++) {
-            const value = solution[cellIndex];
-            if (undefined === value) continue;
+/**
+ * Long-lived solver for a board which is being edited. Each element's clauses are guarded by an activation
+ * literal, so only changed elements need to be re-encoded and learned clauses are kept between solves.
+ * The grid size and digit set are fixed, a new session must be created if they change.
+ */
+export class SolverSession {
+    private readonly _sat: Module;
+    private readonly _satSolverPtr: number;
+    private readonly _context: Context;
+    /** Number of variables allocated in the solver. */
+    private _numVars: number = 0;
+    private _numLits: number;
+    /** Activation literal for each encoded element. */
+    private readonly _activations = new Map<string, number>();
+
+    static async create(board: schema.Board): Promise<SolverSession> {
+        const pbLib = await pbLibPromise;
+        const sat = await cryptoMiniSatPromise;
+
+        const session = new SolverSession(sat, createContext(board, pbLib));
+        session.update(board.elements);
+        return session;
+    }
 
-            const count = validCandidates[cellIndex]?.get(value) || 0;
-            validCandidates[cellIndex]?.set(value, count+1);
+    private constructor(sat: Module, context: Context) {
+        this._sat = sat;
+        this._satSolverPtr = sat.cmsat_new();
+        this._context = context;
+        this._numLits = context.grid.width * context.grid.height * getNumSlots(context);
+    }
+
+    /**
+     * Re-encodes the given elements by id. Null removes the element.
+     */
+    update(elements: Record<string, undefined | null | schema.Element>): void {
+        const changed: schema.Board['elements'] = {};
+        for (const [ id, element ] of Object.entries(elements)) {
+            // Switch off the previous encoding.
+            const oldActivation = this._activations.get(id);
+            if (null != oldActivation) {
+                this._addClause([ -oldActivation ]);
+                this._activations.delete(id);
+            }
+            if (null != element) changed[id] = element;
         }
-        foundSolutions[representation] = true;
+
+        this._numLits = encodeElements(this._numLits, changed, this._context, ({ id, numLits }) => {
+            const activation = numLits + 1;
+            this._activations.set(id, activation);
+
+            // Allocated before adding clauses which use it.
+            this._numLits = activation;
+            for (const clause of this._context.clauses) {
+                this._addClause([ -activation, ...clause ]);
+            }
+            this._context.clauses.length = 0;
+            return activation;
+        })!;
+    }
+
+    async solve(maxSolutions: number,
+        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void,
+        cancellationToken: CancellationToken = {}): Promise<boolean>
+    {
+        // Solutions found are excluded only for this solve.
+        const exclusion = ++this._numLits;
+        this._allocateVars();
+        const assumptions = [ ...this._activations.values(), exclusion ];
+        try {
+            for (let _i = 0; _i < maxSolutions; _i++) {
+                const status = await solveWithAssumptions(this._sat, this._satSolverPtr, assumptions, cancellationToken);
+                if (null == status) return false;
+                if (lbool.FALSE === status)
+                    break;
+
+                const { solution, regions, excludeSolutionClause } =
+                    readModel(this._sat.cmsat_get_model(this._satSolverPtr), this._context);
+                onSolutionFoundOrComplete(solution, regions);
+
+                this._addClause([ -exclusion, ...excludeSolutionClause ]);
+            }
+        }
+        finally {
+            this._addClause([ -exclusion ]);
+        }
+
+        // Complete.
+        onSolutionFoundOrComplete(null);
+        return true;
+    }
+
+    free(): void {
+        this._sat.cmsat_free(this._satSolverPtr);
+    }
+
+    private _allocateVars(): void {
+        if (this._numVars < this._numLits) {
+            this._sat.cmsat_new_vars(this._satSolverPtr, this._numLits - this._numVars);
+            this._numVars = this._numLits;
+        }
+    }
+
+    private _addClause(clause: number[]): void {
+        this._allocateVars();
+        this._sat.cmsat_add_clause(this._satSolverPtr, clause.map(literalToCms));
     }
 }
 
+/**
+ * Finds which digits are possible in each cell, counting up to 10 solutions per digit. Uses a single solver
+ * instance, testing each cell digit via assumptions. Found solutions are excluded from later searches since
+ * they have already been counted.
+ * Calls ON_CANDIDATES_FOUND_OR_COMPLETE with each cell once it is settled, then with all cells (including
+ * final counts), then null.
+ */
 export async function solveTrueCandidates(board: schema.Board,
-    onComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void,
+    onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void,
     cancellationToken: CancellationToken = {}): Promise<boolean>
 {
     const pbLib = await pbLibPromise;
 
-    const size = board.grid.width;
-    const context: Context = {
-        clauses: [],
-        size,
-        grid: board.grid,
-        getLiteral: (y, x, v) => 1 + y * size * size + x * size + v,
-        pbLib,
-    }
+    const context = createContext(board, pbLib);
 
-    const numBaseVars = Math.pow(context.size, 3);
-    let numLits = numBaseVars;
+    const numBaseVars = board.grid.width * board.grid.height * getNumSlots(context);
 
     // Create a boolean array tracking which cells have givens
     const givens: IdxMap<Geometry.CELL, number> = {};
-    for (const element of Object.values(board.elements)) {
-        if (cancellationToken.cancelled) return false;
+    const elements: schema.Board['elements'] = {};
+    for (const [ id, element ] of Object.entries(board.elements)) {
         if (element.type === 'filled') continue;
         if (element.type === 'givens') {
             for (const [ cellIdx, value1 ] of Object.entries(element.value || {})) {
                 givens[cellIdx] = value1!;
             }
         }
-
-        const handler: null | ((numLits: number, element: schema.Element, context: Context) => number) =
-            ELEMENT_HANDLERS[element.type as keyof typeof ELEMENT_HANDLERS] as any;
-        if (undefined === handler) console.warn(`Ignoring constraint: ${element.type}`);
-        if (null != handler) {
-            numLits = handler(numLits, element, context);
-        }
+        elements[id] = element;
     }
+    const numLits = encodeElements(numBaseVars, elements, context, null, cancellationToken);
+    if (null == numLits) return false;
 
-    const neededCandidates: Array<Array<number>> = [];
     const validCandidates: IdxMap<Geometry.CELL, Map<number, number>> = {};
-    for (let cellIdx = 0; cellIdx < size * size; cellIdx++) {
-        if (givens[cellIdx] === undefined) {
-            neededCandidates.push(Array.from({ length: size }, (_, v) => v + 1));
-        } else {
-            neededCandidates.push([]);
-        }
+    const numCells = board.grid.width * board.grid.height;
+    for (let cellIdx = 0; cellIdx < numCells; cellIdx++) {
         validCandidates[cellIdx] = new Map<number, number>();
     }
 
@@ -224,88 +461,383 @@ export async function solveTrueCandidates(board: schema.Board,
 
     // Create solver instance.
     const sat = await cryptoMiniSatPromise;
+    const satSolverPtr = sat.cmsat_new();
+    try {
+        sat.cmsat_new_vars(satSolverPtr, numLits);
+        for (const clause of context.clauses) {
+            sat.cmsat_add_clause(satSolverPtr, clause.map(literalToCms));
+        }
 
-    const initialSolutions: IdxMap<typeof Geometry.CELL, number>[] = [];
-    const maxSolutions = 10;
+        const maxSolutions = 10;
 
-    const returnValue = await solveHelper(
-        sat,
-        numLits,
-        context,
-        size,
-        maxSolutions,
-        [],
-        cancellationToken,
-        (solution: IdxMap<Geometry.CELL, number>) => initialSolutions.push(solution),
-        () => {},
-    );
+        // Finds and counts up to MAX new solutions. Returns the number found, or null if cancelled.
+        const findSolutions = async (max: number, assumptions: number[]): Promise<null | number> => {
+            let found = 0;
+            for (; found < max; found++) {
+                const status = await solveWithAssumptions(sat, satSolverPtr, assumptions, cancellationToken);
+                if (null == status) return null;
+                if (lbool.FALSE === status) break;
 
-    if (!returnValue) {
-        return false;
-    }
+                const { solution, excludeSolutionClause } = readModel(sat.cmsat_get_model(satSolverPtr), context);
+                for (const [ cellIdx, value ] of Object.entries(solution)) {
+                    const candidates = validCandidates[cellIdx]!;
+                    candidates.set(value!, 1 + (candidates.get(value!) || 0));
+                }
+                sat.cmsat_add_clause(satSolverPtr, excludeSolutionClause.map(literalToCms));
+            }
+            return found;
+        };
+
+        const numInitialSolutions = await findSolutions(maxSolutions, []);
+        if (null == numInitialSolutions) return false;
 
-    const foundSolutions: Record<string, boolean> = {};
-    updateValidCandidatesForSolutions(initialSolutions, validCandidates, foundSolutions, context.grid, size);
+        if (numInitialSolutions < maxSolutions) {
+            // All solutions found.
+            onCandidatesFoundOrComplete(validCandidates);
+            onCandidatesFoundOrComplete(null);
+            return true;
+        }
+
+        // Cells with only one candidate, which is assumed when testing later cells.
+        const settledLiterals: number[] = [];
+        for (let testCellIdx = 0; testCellIdx < numCells; testCellIdx++) {
+            const [ x, y ] = cellIdx2cellCoord(testCellIdx, context.grid);
+            const candidates = validCandidates[testCellIdx]!;
+
+            // Inactive cells have no candidates.
+            if (givens[testCellIdx] === undefined && isCellActive([ x, y ], context.grid)) {
+                for (let v = 0; v < context.size; v++) {
+                    const currentCount = candidates.get(context.minDigit + v) || 0;
+                    if (currentCount >= maxSolutions) continue;
+
+                    const literal = context.getLiteral(y, x, v);
+                    if (null == await findSolutions(maxSolutions - currentCount, [ literal, ...settledLiterals ])) return false;
+                }
+            }
 
-    if (initialSolutions.length < maxSolutions) {
-        onComplete(validCandidates);
+            // With blanks, the cell may still be blank.
+            if (1 === candidates.size && !context.blanks) {
+                const onlyCandidate = candidates.keys().next().value;
+                settledLiterals.push(context.getLiteral(y, x, onlyCandidate - context.minDigit));
+            }
+            onCandidatesFoundOrComplete({ [testCellIdx]: candidates });
+        }
+
+        // Complete.
+        onCandidatesFoundOrComplete(validCandidates);
+        onCandidatesFoundOrComplete(null);
         return true;
     }
+    finally {
+        sat.cmsat_free(satSolverPtr);
+    }
+}
+
+/**
+ * Solves with ASSUMPTIONS, yielding periodically. Returns null if cancelled.
+ */
+async function solveWithAssumptions(sat: Module, satSolverPtr: number, assumptions: number[],
+    cancellationToken: CancellationToken): Promise<null | lbool>
+{
+    let status: lbool;
+    do {
+        await asyncYield();
+        if (cancellationToken.cancelled) return null;
+
+        sat.cmsat_set_max_time(satSolverPtr, 0.1);
+        status = sat.cmsat_solve_with_assumptions(satSolverPtr, assumptions.map(literalToCms));
+    } while (lbool.UNDEF === status);
+    return status;
+}
+
+/**
+ * Finds a minimal set of elements in BOARD which together have no solution. Each element's clauses are
+ * guarded by a selector literal so elements can be switched on and off via assumptions.
+ * Calls ON_COMPLETE with the element ids, or null if BOARD has a solution.
+ */
+export async function explainUnsat(board: schema.Board,
+    onComplete: (elementIds: null | string[]) => void,
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    const pbLib = await pbLibPromise;
+
+    const context = createContext(board, pbLib);
+
+    const numBaseVars = board.grid.width * board.grid.height * getNumSlots(context);
+
+    // Clauses contributed by each element. The grid itself is always on.
+    const elementClauses = new Map<string, number[][]>();
+    let numLits = encodeElements(numBaseVars, board.elements, context, ({ id, element, clausesStart }) => {
+        if ('grid' !== element.type) {
+            elementClauses.set(id, context.clauses.splice(clausesStart));
+        }
+    }, cancellationToken);
+    if (null == numLits) return false;
+
+    const selectorToId = new Map<number, string>();
+    for (const [ id, clauses ] of elementClauses) {
+        const selector = ++numLits;
+        selectorToId.set(selector, id);
+        for (const clause of clauses) {
+            context.clauses.push([ -selector, ...clause ]);
+        }
+    }
 
-    for (let testCellIdx = 0; testCellIdx < size * size; testCellIdx++) {
-        if (cancellationToken.cancelled) return false;
-        if (givens[testCellIdx] !== undefined) continue;
+    const sat = await cryptoMiniSatPromise;
+    const satSolverPtr = sat.cmsat_new();
+    try {
+        sat.cmsat_new_vars(satSolverPtr, numLits);
+        for (const clause of context.clauses) {
+            sat.cmsat_add_clause(satSolverPtr, clause.map(literalToCms));
+        }
 
-        for (let testValue = 1; testValue <= size; testValue++) {
-            if (!neededCandidates[testCellIdx].includes(testValue)) continue;
-            const currentCount = validCandidates[testCellIdx]?.get(testValue) || 0;
-            if (currentCount >= maxSolutions) continue;
+        let core = [ ...selectorToId.keys() ];
+        const status = await solveWithAssumptions(sat, satSolverPtr, core, cancellationToken);
+        if (null == status) return false;
+        if (lbool.TRUE === status) {
+            onComplete(null);
+            return true;
+        }
 
-            const additionalClauses = [];
-            const solutions: IdxMap<typeof Geometry.CELL, number>[] = [];
+        // Try removing each element, keeping it only if the rest become solvable.
+        for (let i = 0; i < core.length;) {
+            const without = core.filter((_, j) => i !== j);
+            const status = await solveWithAssumptions(sat, satSolverPtr, without, cancellationToken);
+            if (null == status) return false;
 
-            // Add additional clause for the value being tested
-            {
-                const [ x, y ] = cellIdx2cellCoord(testCellIdx, context.grid);
-                const literal = context.getLiteral(y, x, testValue - 1);
-                additionalClauses.push([ literal ]);
+            if (lbool.FALSE === status) {
+                core = without;
             }
-
-            // Add clauses for previous cells with only 1 candidate
-            {
-                for (let previousCellIndex = 0; previousCellIndex < testCellIdx; previousCellIndex++) {
-                    const previousCellCandidates = validCandidates[previousCellIndex];
-                    if (previousCellCandidates && 1 === previousCellCandidates.size) {
-                        const onlyCandidate = previousCellCandidates.keys().next().value;
-                        const [ x, y ] = cellIdx2cellCoord(previousCellIndex, context.grid);
-                        const literal = context.getLiteral(y, x, onlyCandidate - 1);
-                        additionalClauses.push([ literal ]);
-                    }
-                }
+            else {
+                i++;
             }
+        }
 
-            const returnValue = await solveHelper(
-                sat,
-                numLits,
-                context,
-                size,
-                maxSolutions - currentCount,
-                additionalClauses,
-                cancellationToken,
-                (solution: IdxMap<Geometry.CELL, number>) => solutions.push(solution),
-                () => {},
-            );
+        onComplete(core.map(selector => selectorToId.get(selector)!));
+        return true;
+    }
+    finally {
+        sat.cmsat_free(satSolverPtr);
+    }
+}
+
+export type MinimizeGivensOptions = {
+    /** Only remove givens in pairs which are symmetric under 180 degree rotation. */
+    symmetric?: boolean,
+    /** Called after each attempted removal. */
+    onProgress?: (checked: number, total: number) => void,
+};
+
+async function findSolutions(board: schema.Board, maxSolutions: number, cancellationToken: CancellationToken): Promise<null | IdxMap<Geometry.CELL, number>[]> {
+    const solutions: IdxMap<Geometry.CELL, number>[] = [];
+    const success = await solve(board, maxSolutions, solution => {
+        if (null != solution) solutions.push(solution);
+    }, cancellationToken);
+    return success ? solutions : null;
+}
+
+/**
+ * Removes givens from BOARD one at a time (or in symmetric pairs) while the solution remains unique.
+ * Filled digits are ignored. Calls ON_COMPLETE with the remaining givens, or null if BOARD is not unique to begin with.
+ */
+export async function minimizeGivens(board: schema.Board,
+    onComplete: (givens: null | IdxMap<Geometry.CELL, number>) => void,
+    options: MinimizeGivensOptions = {},
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    const givens: IdxMap<Geometry.CELL, number> = {};
+    const elements: schema.Board['elements'] = {};
+    for (const [ id, element ] of Object.entries(board.elements)) {
+        if ('givens' === element.type) {
+            Object.assign(givens, element.value || {});
+        }
+        else if ('filled' !== element.type) {
+            elements[id] = element;
+        }
+    }
+    const givensElement = { type: 'givens', order: 0, value: givens } as schema.DigitElement;
+    const testBoard: schema.Board = {
+        ...board,
+        elements: { ...elements, givens: givensElement },
+    };
+
+    const initialSolutions = await findSolutions(testBoard, 2, cancellationToken);
+    if (null == initialSolutions) return false;
+    if (1 !== initialSolutions.length) {
+        onComplete(null);
+        return true;
+    }
 
-            if (!returnValue) {
-                return false;
+    // Group givens which must be removed together.
+    const groups: number[][] = [];
+    const grouped = new Set<number>();
+    for (const cellIdx of idxMapToKeysArray<Geometry.CELL>(givens)) {
+        if (grouped.has(cellIdx)) continue;
+
+        const group = [ cellIdx ];
+        if (options.symmetric) {
+            const [ x, y ] = cellIdx2cellCoord(cellIdx, board.grid);
+            const mirrorIdx = cellCoord2CellIdx([ board.grid.width - 1 - x, board.grid.height - 1 - y ], board.grid);
+            if (mirrorIdx !== cellIdx && null != givens[mirrorIdx]) group.push(mirrorIdx);
+        }
+        group.forEach(idx => grouped.add(idx));
+        groups.push(group);
+    }
+
+    for (let i = 0; i < groups.length; i++) {
+        const removed = groups[i].map(cellIdx => [ cellIdx, givens[cellIdx]! ]);
+        for (const [ cellIdx ] of removed) {
+            delete givens[cellIdx];
+        }
+
+        const solutions = await findSolutions(testBoard, 2, cancellationToken);
+        if (null == solutions) return false;
+        // Put back if no longer unique.
+        if (1 !== solutions.length) {
+            for (const [ cellIdx, value1 ] of removed) {
+                givens[cellIdx] = value1;
             }
+        }
+
+        options.onProgress?.(i + 1, groups.length);
+    }
+
+    // Complete.
+    onComplete(givens);
+    return true;
+}
+
+export type GenerateOptions = {
+    /** Seed for the random number generator, for reproducible results. */
+    seed?: number,
+    /** Called with the number of givens after each given is added. */
+    onProgress?: (numGivens: number) => void,
+};
+
+/** Small seeded PRNG (mulberry32), returns floats in [0, 1). */
+function makeRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
 
-            updateValidCandidatesForSolutions(solutions, validCandidates, foundSolutions, context.grid, size);
+function shuffle<T>(arr: T[], random: () => number): T[] {
+    for (let i = arr.length - 1; 0 < i; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [ arr[i], arr[j] ] = [ arr[j], arr[i] ];
+    }
+    return arr;
+}
+
+/**
+ * Fills in the clue values missing from BOARD (killer cages without sums or operator results, `true` little killer
+ * and sandwich clues) according to SOLUTION, skipping sandwiches without both bread digits. Modifies BOARD in place.
+ */
+function fillMissingClues(board: schema.Board, solution: IdxMap<Geometry.CELL, number>): void {
+    const { min, max } = getDigitSet(board);
+    const sumCoords = (cellCoords: Coord<Geometry.CELL>[]) => cellCoords
+        .reduce((sum, coord) => sum + (solution[cellCoord2CellIdx(coord, board.grid)] || 0), 0);
+
+    for (const element of Object.values(board.elements)) {
+        switch (element.type) {
+            case 'killer':
+                for (const cage of Object.values(element.value || {})) {
+                    if ('number' === typeof cage.sum) continue;
+                    const digits = idxMapToKeysArray<Geometry.CELL>(cage.cells).map(idx => solution[idx]).filter(digit => null != digit) as number[];
+                    cage.sum = evalCageOperator(cage.op, digits);
+                }
+                break;
+            case 'littleKiller':
+                for (const [ diagIdx, sumOrTrue ] of Object.entries(element.value || {})) {
+                    if ('number' === typeof sumOrTrue) continue;
+                    element.value![+diagIdx] = sumCoords(diagonalIdx2diagonalCellCoords(+diagIdx, board.grid));
+                }
+                break;
+            case 'sandwich':
+                for (const [ seriesIdx, sumOrTrue ] of Object.entries(element.value || {})) {
+                    if ('number' === typeof sumOrTrue) continue;
+                    const cellCoords = seriesIdx2CellCoords(+seriesIdx, board.grid);
+                    const breadIdxes: number[] = [];
+                    cellCoords.forEach((coord, i) => {
+                        const value = solution[cellCoord2CellIdx(coord, board.grid)];
+                        if (min === value || max === value) breadIdxes.push(i);
+                    });
+                    // With blanks, a line may be missing a bread digit and have no sandwich to clue.
+                    if (2 > breadIdxes.length) continue;
+                    element.value![+seriesIdx] = sumCoords(cellCoords.slice(breadIdxes[0] + 1, breadIdxes[1]));
+                }
+                break;
         }
     }
+}
+
+/**
+ * Generates a puzzle from the constraints in BOARD: picks a random solution, fills in missing clue values,
+ * then adds givens until the solution is unique. Filled digits are ignored.
+ * Calls ON_COMPLETE with the generated board, or null if BOARD has no solutions.
+ */
+export async function generate(board: schema.Board,
+    onComplete: (board: null | schema.Board) => void,
+    options: GenerateOptions = {},
+    cancellationToken: CancellationToken = {}): Promise<boolean>
+{
+    const random = makeRandom(options.seed ?? Date.now());
+
+    const generated: schema.Board = JSON.parse(JSON.stringify(board));
+    for (const [ id, element ] of Object.entries(generated.elements)) {
+        if ('filled' === element.type) delete generated.elements[id];
+    }
+    let givensElement = Object.values(generated.elements).find(({ type }) => 'givens' === type) as undefined | schema.DigitElement;
+    if (null == givensElement) {
+        givensElement = { type: 'givens', order: 0, value: {} } as schema.DigitElement;
+        generated.elements.givens = givensElement;
+    }
+    const givens = givensElement.value = givensElement.value || {};
+    const { min, max } = getDigitSet(board);
+    const size = max - min + 1;
+
+    // Pick a random solution by placing random digits in random cells, skipping any which break the puzzle.
+    const randomGivens: IdxMap<Geometry.CELL, number> = {};
+    const randomBoard: schema.Board = {
+        ...generated,
+        elements: { ...generated.elements, random: { type: 'givens', order: 0, value: randomGivens } as schema.DigitElement },
+    };
+    const cellIdxes = shuffle(Array<void>(board.grid.width * board.grid.height).fill().map((_, i) => i), random)
+        .filter(cellIdx => null == givens[cellIdx]);
+    for (const cellIdx of cellIdxes.slice(0, 2 * size)) {
+        randomGivens[cellIdx] = min + Math.floor(random() * size);
+        const solutions = await findSolutions(randomBoard, 1, cancellationToken);
+        if (null == solutions) return false;
+        if (0 === solutions.length) delete randomGivens[cellIdx];
+    }
+    const fill = await findSolutions(randomBoard, 1, cancellationToken);
+    if (null == fill) return false;
+    if (0 === fill.length) {
+        onComplete(null);
+        return true;
+    }
+    const [ solution ] = fill;
+
+    fillMissingClues(generated, solution);
+
+    // Add givens where the solution differs from another solution until unique.
+    while (true) {
+        const solutions = await findSolutions(generated, 2, cancellationToken);
+        if (null == solutions) return false;
+
+        const other = solutions.find(otherSolution => cellIdxes.some(cellIdx => solution[cellIdx] !== otherSolution[cellIdx]));
+        if (null == other) break;
+
+        const cellIdx = cellIdxes.find(cellIdx => null == givens[cellIdx] && solution[cellIdx] !== other[cellIdx])!;
+        givens[cellIdx] = solution[cellIdx]!;
+        options.onProgress?.(Object.keys(givens).length);
+    }
 
     // Complete.
-    onComplete(validCandidates);
+    onComplete(generated);
     return true;
 }
 
@@ -315,50 +847,154 @@ export const ELEMENT_HANDLERS = {
     colors: null,
 
     grid(numLits: number, _element: schema.GridElement, context: Context): number {
-        const ones = Array(context.size).fill(1);
-        for (const [ a, b ] of product(context.size, context.size)) {
+        const { width, height } = context.grid;
+        for (const [ y, x ] of product(height, width)) {
+            // Each cell has exactly one digit.
             const cel: number[] = [];
-            const row: number[] = [];
-            const col: number[] = [];
-            for (const [ c ] of product(context.size)) {
-                cel.push(context.getLiteral(a, b, c));
-                row.push(context.getLiteral(a, c, b));
-                col.push(context.getLiteral(c, a, b));
+            for (const [ v ] of product(getNumSlots(context))) {
+                cel.push(context.getLiteral(y, x, v));
+            }
+            if (isCellActive([ x, y ], context.grid)) {
+                numLits = context.pbLib.encodeBoth(Array(cel.length).fill(1), cel, 1, 1, context.clauses, 1 + numLits);
+            }
+            else {
+                // Inactive cells (between sub-grids) are left empty.
+                context.clauses.push(...cel.map(lit => [ -lit ]));
             }
-            numLits = context.pbLib.encodeBoth(ones, cel, 1, 1, context.clauses, 1 + numLits);
-            numLits = context.pbLib.encodeBoth(ones, row, 1, 1, context.clauses, 1 + numLits);
-            numLits = context.pbLib.encodeBoth(ones, col, 1, 1, context.clauses, 1 + numLits);
+        }
+        // Rows and columns of each sub-grid.
+        for (const house of getGridHouses(context.grid)) {
+            numLits = encodeHouse(numLits, house.map(idx => cellIdx2cellCoord(idx, context.grid)), context);
         }
 
         return numLits;
     },
 
     gridRegion(numLits: number, element: schema.GridRegionElement, context: Context): number {
+        // Regions are solved for instead.
+        if (context.chaos) return numLits;
+
         const regions = element.value || {};
         if (!regions) throw Error(`Invalid region with no cells.`);
 
         for (const bx of arrayObj2array(regions)) {
             const coords = idxMapToKeysArray<Geometry.CELL>(bx)
                 .map(idx => cellIdx2cellCoord(idx, context.grid))
-            const ones = Array(coords.length).fill(1);
-            for (let val = 0; val < context.size; val++) {
-                const literals = coords.map(([ x, y ]) => context.getLiteral(y, x, val));
-                numLits = context.pbLib.encodeBoth(ones, literals, 1, 1, context.clauses, 1 + numLits);
+                .filter(coord => isCellActive(coord, context.grid));
+            if (context.size < coords.length && !context.blanks) {
+                // Too many cells to fill without repeats.
+                numLits = encodeNoRepeats(numLits, coords, context);
+            }
+            else {
+                numLits = encodeHouse(numLits, coords, context);
             }
         }
 
         return numLits;
     },
 
-    disjointGroups(numLits: number, element: schema.BooleanElement, context: Context): number {
-        if (element.value) {
-            const ones = Array(context.size).fill(1);
-            for (const [ val, pos ] of product(context.size, context.size)) {
-                const box: number[] = [];
-                for (const [ bx ] of product(context.size)) {
-                    box.push(context.getLiteral(Math.floor(bx / 3) * 3 + Math.floor(pos / 3), (bx % 3) * 3 + (pos % 3), val));
+    chaosConstruction(numLits: number, element: schema.BooleanElement, context: Context): number {
+        if (!element.value) return numLits;
+
+        const n = context.size;
+        const numCells = context.grid.width * context.grid.height;
+        if (n * n !== numCells) throw Error(`Chaos construction needs ${n} regions of ${n} cells, but there are ${numCells} cells.`);
+
+        // Region, whether the cell is its region's root, and distance from the root for each cell.
+        const regionBase = numLits;
+        const rootBase = regionBase + numCells * n;
+        const levelBase = rootBase + numCells * n;
+        numLits = levelBase + numCells * n;
+        const getRegionLiteral = (cellIdx: number, k: number) => 1 + regionBase + cellIdx * n + k;
+        const getRootLiteral = (cellIdx: number, k: number) => 1 + rootBase + cellIdx * n + k;
+        const getLevelLiteral = (cellIdx: number, t: number) => 1 + levelBase + cellIdx * n + t;
+        context.getRegionLiteral = getRegionLiteral;
+
+        const ones = Array(numCells).fill(1);
+        for (const [ cellIdx ] of product(numCells)) {
+            const regionLits = Array<void>(n).fill().map((_, k) => getRegionLiteral(cellIdx, k));
+            const rootLits = Array<void>(n).fill().map((_, k) => getRootLiteral(cellIdx, k));
+            const levelLits = Array<void>(n).fill().map((_, t) => getLevelLiteral(cellIdx, t));
+            numLits = context.pbLib.encodeBoth(ones.slice(0, n), regionLits, 1, 1, context.clauses, 1 + numLits);
+            numLits = context.pbLib.encodeBoth(ones.slice(0, n), levelLits, 1, 1, context.clauses, 1 + numLits);
+
+            // Roots are at level 0, and are the first cell of their region, in region order to break symmetry.
+            context.clauses.push([ -levelLits[0], ...rootLits ]);
+            for (const [ k ] of product(n)) {
+                context.clauses.push([ -rootLits[k], regionLits[k] ]);
+                context.clauses.push([ -rootLits[k], levelLits[0] ]);
+                for (let prevIdx = 0; prevIdx < cellIdx; prevIdx++) {
+                    context.clauses.push([ -rootLits[k], -getRegionLiteral(prevIdx, k) ]);
+                }
+                if (0 < k) {
+                    const prevRootLits = Array<void>(cellIdx).fill().map((_, prevIdx) => getRootLiteral(prevIdx, k - 1));
+                    context.clauses.push([ -rootLits[k], ...prevRootLits ]);
+                }
+            }
+        }
+
+        for (const [ k ] of product(n)) {
+            const regionLits = Array<void>(numCells).fill().map((_, cellIdx) => getRegionLiteral(cellIdx, k));
+            const rootLits = Array<void>(numCells).fill().map((_, cellIdx) => getRootLiteral(cellIdx, k));
+            numLits = context.pbLib.encodeBoth(ones, regionLits, n, n, context.clauses, 1 + numLits);
+            numLits = context.pbLib.encodeBoth(ones, rootLits, 1, 1, context.clauses, 1 + numLits);
+
+            // Each digit once in the region, via literals for a cell being in the region and having the digit.
+            for (const [ v ] of product(n)) {
+                const inRegionLits: number[] = [];
+                for (const [ cellIdx ] of product(numCells)) {
+                    const [ x, y ] = cellIdx2cellCoord(cellIdx, context.grid);
+                    const regionLit = getRegionLiteral(cellIdx, k);
+                    const digitLit = context.getLiteral(y, x, v);
+                    const inRegionLit = ++numLits;
+                    context.clauses.push([ -inRegionLit, regionLit ], [ -inRegionLit, digitLit ], [ -regionLit, -digitLit, inRegionLit ]);
+                    inRegionLits.push(inRegionLit);
                 }
-                numLits = context.pbLib.encodeBoth(ones, box, 1, 1, context.clauses, 1 + numLits);
+                numLits = context.pbLib.encodeBoth(ones, inRegionLits, context.blanks ? 0 : 1, 1, context.clauses, 1 + numLits);
+            }
+        }
+
+        // Connected: each non-root cell has a parent in the same region one level closer to the root.
+        const parentLits = Array<void>(numCells).fill().map((): number[] => []);
+        for (const [ coordA, coordB ] of getOrthogonallyAdjacentPairs(context.grid)) {
+            const idxA = cellCoord2CellIdx(coordA, context.grid);
+            const idxB = cellCoord2CellIdx(coordB, context.grid);
+            for (const [ cellIdx, parentIdx ] of [ [ idxA, idxB ], [ idxB, idxA ] ]) {
+                const parentLit = ++numLits;
+                parentLits[cellIdx].push(parentLit);
+                context.clauses.push([ -parentLit, -getLevelLiteral(cellIdx, 0) ]);
+                for (const [ k ] of product(n)) {
+                    context.clauses.push([ -parentLit, -getRegionLiteral(cellIdx, k), getRegionLiteral(parentIdx, k) ]);
+                }
+                for (let t = 1; t < n; t++) {
+                    context.clauses.push([ -parentLit, -getLevelLiteral(cellIdx, t), getLevelLiteral(parentIdx, t - 1) ]);
+                }
+            }
+        }
+        for (const [ cellIdx ] of product(numCells)) {
+            context.clauses.push([ getLevelLiteral(cellIdx, 0), ...parentLits[cellIdx] ]);
+        }
+
+        return numLits;
+    },
+
+    disjointGroups(numLits: number, element: schema.BooleanElement, context: Context): number {
+        if (!element.value) return numLits;
+
+        // Each group is the cells at the same position (by cell index) within each region.
+        const regions = context.regions.map(region => idxMapToKeysArray<Geometry.CELL>(region));
+        const numPositions = Math.max(0, ...regions.map(cells => cells.length));
+        for (let pos = 0; pos < numPositions; pos++) {
+            const coords = regions
+                .filter(cells => pos < cells.length)
+                .map(cells => cellIdx2cellCoord(cells[pos], context.grid))
+                .filter(coord => isCellActive(coord, context.grid));
+            if (context.size < coords.length && !context.blanks) {
+                // Too many cells to fill without repeats.
+                numLits = encodeNoRepeats(numLits, coords, context);
+            }
+            else {
+                numLits = encodeHouse(numLits, coords, context);
             }
         }
         return numLits;
@@ -366,7 +1002,12 @@ export const ELEMENT_HANDLERS = {
 
     givens(numLits: number, element: schema.DigitElement, context: Context): number {
         for (const [ cellIdx, value1 ] of Object.entries(element.value || {})) {
-            const v = value1! - 1;
+            const v = value1! - context.minDigit;
+            if (v < 0 || context.size <= v) {
+                // Digit is not in the digit set.
+                context.clauses.push([]);
+                continue;
+            }
             const [ x, y ] = cellIdx2cellCoord(+cellIdx, context.grid);
 
             const literal = context.getLiteral(y, x, v);
@@ -442,6 +1083,36 @@ export const ELEMENT_HANDLERS = {
         return numLits;
     },
 
+    selfTaxicab(numLits: number, element: schema.BooleanElement, context: Context): number {
+        if (element.value) {
+            for (const [ v ] of product(context.size)) {
+                // Digit may not repeat that many cells apart.
+                const value = context.minDigit + v;
+                if (value <= 0) continue;
+                numLits = encodeGlobalCellPairs(
+                    numLits,
+                    context,
+                    grid => taxicabMoves(value, grid),
+                    (v0, v1) => v0 === v1 && value === v0,
+                );
+            }
+        }
+        return numLits;
+    },
+
+    taxicab(numLits: number, element: schema.TaxicabElement, context: Context): number {
+        if (null != element.value && 0 < element.value) {
+            const distance = element.value;
+            numLits = encodeGlobalCellPairs(
+                numLits,
+                context,
+                grid => taxicabMoves(distance, grid),
+                (v0, v1) => v0 === v1,
+            );
+        }
+        return numLits;
+    },
+
     diagonal(numLits: number, element: schema.DiagonalElement, context: Context): number {
         if (element.value) {
             if (element.value.positive) {
@@ -458,12 +1129,12 @@ export const ELEMENT_HANDLERS = {
 
     even(numLits: number, element: schema.RegionElement, context: Context): number {
         const cellCoords = idxMapToKeysArray(element.value || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
-        return encodeExcludeValues(numLits, cellCoords, v => 1 === (v + 1) % 2, context);
+        return encodeExcludeValues(numLits, cellCoords, v => 0 !== (context.minDigit + v) % 2, context);
     },
 
     odd(numLits: number, element: schema.RegionElement, context: Context): number {
         const cellCoords = idxMapToKeysArray(element.value || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
-        return encodeExcludeValues(numLits, cellCoords, v => 0 === (v + 1) % 2, context);
+        return encodeExcludeValues(numLits, cellCoords, v => 0 === (context.minDigit + v) % 2, context);
     },
 
     min(numLits: number, element: schema.RegionElement, context: Context): number {
@@ -487,21 +1158,43 @@ export const ELEMENT_HANDLERS = {
         return numLits;
     },
 
+    rowIndex(numLits: number, element: schema.IndexElement, context: Context): number {
+        return encodeIndex(numLits, idxMapToKeysArray(element.value || {}), true, context);
+    },
+    colIndex(numLits: number, element: schema.IndexElement, context: Context): number {
+        return encodeIndex(numLits, idxMapToKeysArray(element.value || {}), false, context);
+    },
+
     killer(numLits: number, element: schema.KillerElement, context: Context): number {
-        for (const { sum, cells } of Object.values(element.value || {})) {
+        for (const { sum, op, repeat, cells } of Object.values(element.value || {})) {
             const cellCoords = idxMapToKeysArray(cells || {}).map(idx => cellIdx2cellCoord(+idx, context.grid));
 
             // Cage no repeats.
-            numLits = encodeNoRepeats(numLits, cellCoords, context);
+            if (!repeat) {
+                numLits = encodeNoRepeats(numLits, cellCoords, context);
+            }
 
-            // Cage sum.
+            // Cage sum, or other arithmetic clue.
             if ('number' === typeof sum) {
-                numLits = encodeSum(numLits, sum, cellCoords, context);
+                if (null == op || '+' === op) {
+                    numLits = encodeSum(numLits, sum, cellCoords, context);
+                }
+                else {
+                    numLits = encodeCageOperator(numLits, op, sum, cellCoords, !!repeat, context);
+                }
             }
         }
         return numLits;
     },
 
+    extraRegion(numLits: number, element: schema.ExtraRegionElement, context: Context): number {
+        for (const cells of Object.values(element.value || {})) {
+            const cellCoords = idxMapToKeysArray(cells || {}).map(idx => cellIdx2cellCoord(+idx, context.grid));
+            numLits = encodeNoRepeats(numLits, cellCoords, context);
+        }
+        return numLits;
+    },
+
     littleKiller(numLits: number, element: schema.LittleKillerElement, context: Context): number {
         for (const [ diagIdx, sum ] of Object.entries(element.value || {})) {
             if ('number' !== typeof sum) continue;
@@ -545,21 +1238,23 @@ export const ELEMENT_HANDLERS = {
     },
 
     whisper(numLits: number, element: schema.LineElement, context: Context): number {
-        return whisperConstraint(
-            (gridWidth) => (gridWidth + 1) >> 1,
-            numLits,
-            element,
-            context,
-        );
+        return whisperConstraint(numLits, element, context);
     },
 
     dutchWhisper(numLits: number, element: schema.LineElement, context: Context): number {
-        return whisperConstraint(
-            (gridWidth) => ((gridWidth + 1) >> 1) - 1,
-            numLits,
-            element,
-            context,
-        );
+        return whisperConstraint(numLits, element, context);
+    },
+
+    entropicLine(numLits: number, element: schema.LineElement, context: Context): number {
+        return lineClassConstraint(numLits, element, context);
+    },
+
+    modularLine(numLits: number, element: schema.LineElement, context: Context): number {
+        return lineClassConstraint(numLits, element, context);
+    },
+
+    parityLine(numLits: number, element: schema.LineElement, context: Context): number {
+        return lineClassConstraint(numLits, element, context);
     },
 
     renban(numLits: number, element: schema.LineElement, context: Context): number {
@@ -611,19 +1306,75 @@ export const ELEMENT_HANDLERS = {
         return numLits;
     },
 
+    regionSumLine(numLits: number, element: schema.LineElement, context: Context): number {
+        for (const cells of Object.values(element.value || {})) {
+            const segments = getRegionSegments(arrayObj2array(cells || {}), context.regions)
+                .map(segment => segment.map(idx => cellIdx2cellCoord(idx, context.grid)));
+
+            // Each segment has the same sum as the first: -FIRST + SEGMENT = 0.
+            const [ firstWeights, firstLits ] = writeSum(segments[0] || [], context);
+            for (const segment of segments.slice(1)) {
+                const weights = firstWeights.map(weight => -weight);
+                const lits = firstLits.slice();
+                writeSum(segment, context, weights, lits);
+                numLits = context.pbLib.encodeBoth(weights, lits, 0, 0, context.clauses, 1 + numLits);
+            }
+        }
+        return numLits;
+    },
+
     palindrome(numLits: number, element: schema.LineElement, context: Context): number {
         for (const cells of Object.values(element.value || {})) {
             const cellCoords = arrayObj2array(cells || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
-
-            const cellCoordsA = cellCoords.slice(0, cellCoords.length >> 1);
-            const cellCoordsB = cellCoords.slice(-cellCoordsA.length);
-            cellCoordsB.reverse();
+            const [ cellCoordsA, cellCoordsB ] = getMirroredCells(cellCoords);
 
             numLits = encodeClones(numLits, cellCoordsA, cellCoordsB, context);
         }
         return numLits;
     },
 
+    zipper(numLits: number, element: schema.LineElement, context: Context): number {
+        for (const cells of Object.values(element.value || {})) {
+            const cellCoords = arrayObj2array(cells || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
+            const [ cellCoordsA, cellCoordsB, middle ] = getMirroredCells(cellCoords);
+            if (0 === cellCoordsA.length) continue;
+
+            // Each pair sums to the middle digit, or for even lengths to the same as the first pair: -TARGET + PAIR = 0.
+            const [ targetWeights, targetLits ] = null != middle
+                ? writeSum([ middle ], context)
+                : writeSum([ cellCoordsA[0], cellCoordsB[0] ], context);
+            for (let i = null != middle ? 0 : 1; i < cellCoordsA.length; i++) {
+                const weights = targetWeights.map(weight => -weight);
+                const lits = targetLits.slice();
+                writeSum([ cellCoordsA[i], cellCoordsB[i] ], context, weights, lits);
+                numLits = context.pbLib.encodeBoth(weights, lits, 0, 0, context.clauses, 1 + numLits);
+            }
+        }
+        return numLits;
+    },
+
+    nabner(numLits: number, element: schema.LineElement, context: Context): number {
+        for (const cells of Object.values(element.value || {})) {
+            const cellCoords = [ ...new Set(arrayObj2array(cells || {})) ].map(idx => cellIdx2cellCoord(idx, context.grid));
+
+            // No two cells may be equal or consecutive.
+            for (let i = 0; i < cellCoords.length; i++) {
+                for (let j = i + 1; j < cellCoords.length; j++) {
+                    const [ x0, y0 ] = cellCoords[i];
+                    const [ x1, y1 ] = cellCoords[j];
+                    for (const [ v0, v1 ] of product(context.size, context.size)) {
+                        if (Math.abs(v0 - v1) < 2) {
+                            const lit0 = context.getLiteral(y0, x0, v0);
+                            const lit1 = context.getLiteral(y1, x1, v1);
+                            context.clauses.push([ -lit0, -lit1 ]);
+                        }
+                    }
+                }
+            }
+        }
+        return numLits;
+    },
+
     between(numLits: number, element: schema.LineElement, context: Context): number {
         for (const cells of Object.values(element.value || {})) {
             const betweenCells = arrayObj2array(cells || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
@@ -669,7 +1420,7 @@ export const ELEMENT_HANDLERS = {
             for (const [x, y] of [head, tail]) {
                 for (const [ v ] of product(context.size)) {
                     const bulbDigitLiteral = context.getLiteral(y, x, v);
-                    const value = 1 + v;
+                    const value = context.minDigit + v;
                     weights.push(-1 * value);
                     lits.push(bulbDigitLiteral);
                 }
@@ -685,7 +1436,7 @@ export const ELEMENT_HANDLERS = {
     },
 
     lockout(numLits: number, element: schema.LineElement, context: Context): number {
-        const delta = ((context.size + 1) >> 1) - 1; // TODO: make this configurable somehow.
+        const delta = getLineDelta(element, context.size);
 
         for (const cells of Object.values(element.value || {})) {
             const lineCells = arrayObj2array(cells || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
@@ -720,33 +1471,30 @@ export const ELEMENT_HANDLERS = {
     },
 
     arrow(numLits: number, element: schema.ArrowElement, context: Context): number {
-        for (const { bulb, body } of Object.values(element.value || {})) {
+        for (const { bulb, body, pill } of Object.values(element.value || {})) {
             // Arrow only has a bulb
             if (null == body) continue;
 
-            // Reverse so least significant digit first.
-            const bulbArrReversed = arrayObj2array(bulb);
-            bulbArrReversed.reverse();
+            const bulbArr = arrayObj2array(bulb);
             // Discard start (which is on cell head).
             const [ _bodyStart, ...bodyArrRest ] = arrayObj2array(body);
-            if (0 >= bulbArrReversed.length || 0 >= bodyArrRest.length) continue;
+            if (0 >= bulbArr.length || 0 >= bodyArrRest.length) continue;
 
             const weights: number[] = [];
             const lits: number[] = [];
 
-            // Arrow bulb -- do in reverse order to handle ones place first.
+            // Arrow bulb -- pills are weighted by place value.
             {
-                let power = 1;
-                for (const bulbCellIdx of bulbArrReversed) {
+                const bulbWeights = getArrowBulbWeights(bulbArr.length, pill);
+                bulbArr.forEach((bulbCellIdx, i) => {
                     const [ x, y ] = cellIdx2cellCoord(bulbCellIdx, context.grid);
                     for (const [ v ] of product(context.size)) {
                         const bulbDigitLiteral = context.getLiteral(y, x, v);
-                        const value = 1 + v;
-                        weights.push(-1 * power * value);
+                        const value = context.minDigit + v;
+                        weights.push(-1 * bulbWeights[i] * value);
                         lits.push(bulbDigitLiteral);
                     }
-                    power *= 10;
-                }
+                });
             }
 
             // Arrow body.
@@ -768,7 +1516,9 @@ export const ELEMENT_HANDLERS = {
             const cellPair = edgeIdx2cellIdxes(+edgeIdx, context.grid).map(idx => cellIdx2cellCoord(idx, context.grid));
             numLits = encodeSum(numLits, sum, cellPair, context);
         }
-        return numLits;
+
+        // Unmarked edges cannot be X or V.
+        return encodeNegativeEdges(numLits, element, (v0, v1) => 5 === v0 + v1 || 10 === v0 + v1, context);
     },
 
     difference(numLits: number, element: schema.EdgeNumberElement, context: Context): number {
@@ -797,7 +1547,9 @@ export const ELEMENT_HANDLERS = {
                 context.clauses.push(bIsVClause);
             }
         }
-        return numLits;
+
+        // Unmarked edges cannot have the default difference.
+        return encodeNegativeEdges(numLits, element, (v0, v1) => DEFAULT_DELTA === Math.abs(v0 - v1), context);
     },
 
     ratio(numLits: number, element: schema.EdgeNumberElement, context: Context): number {
@@ -811,32 +1563,39 @@ export const ELEMENT_HANDLERS = {
             const [ xB, yB ] = cellIdx2cellCoord(cellIdxB, context.grid);
 
             for (const [ v ] of product(context.size)) {
-                const value = 1 + v;
-                const valueDiv = value / ratio;
-                const valueMul = value * ratio;
+                const value = context.minDigit + v;
+                const vDiv = value / ratio - context.minDigit;
+                const vMul = value * ratio - context.minDigit;
                 // Cell A is VALUE implies cell B is VALUE * DELTA or VALUE / DELTA.
                 // Cell B is VALUE implies cell A is VALUE * DELTA or VALUE / DELTA.
                 const aIsVClause = [ -context.getLiteral(yA, xA, v) ];
                 const bIsVClause = [ -context.getLiteral(yB, xB, v) ];
-                if (Number.isInteger(valueDiv)) {
-                    aIsVClause.push(context.getLiteral(yB, xB, valueDiv - 1)); // -1 for zero-indexing.
-                    bIsVClause.push(context.getLiteral(yA, xA, valueDiv - 1));
+                if (Number.isInteger(vDiv) && 0 <= vDiv && vDiv < context.size) {
+                    aIsVClause.push(context.getLiteral(yB, xB, vDiv));
+                    bIsVClause.push(context.getLiteral(yA, xA, vDiv));
                 }
-                if (Number.isInteger(valueMul) && valueMul <= context.size) {
-                    aIsVClause.push(context.getLiteral(yB, xB, valueMul - 1));
-                    bIsVClause.push(context.getLiteral(yA, xA, valueMul - 1));
+                if (Number.isInteger(vMul) && 0 <= vMul && vMul < context.size) {
+                    aIsVClause.push(context.getLiteral(yB, xB, vMul));
+                    bIsVClause.push(context.getLiteral(yA, xA, vMul));
                 }
                 context.clauses.push(aIsVClause);
                 context.clauses.push(bIsVClause);
             }
         }
-        return numLits;
+
+        // Unmarked edges cannot have the default ratio.
+        return encodeNegativeEdges(numLits, element, (v0, v1) => DEFAULT_RATIO * v0 === v1 || DEFAULT_RATIO * v1 === v0, context);
     },
 
     quadruple(numLits: number, element: schema.QuadrupleElement, context: Context): number {
         for (const [ cornerIdx, values ] of Object.entries(element.value || {})) {
             const cellCoords = cornerCoord2cellCoords(cornerIdx2cornerCoord(+cornerIdx, context.grid), context.grid);
-            const vs = arrayObj2array(values as ArrayObj<number>).map(value1 => value1 - 1);
+            const vs = arrayObj2array(values as ArrayObj<number>).map(value => value - context.minDigit);
+            if (vs.some(v => v < 0 || context.size <= v)) {
+                // Digit is not in the digit set.
+                context.clauses.push([]);
+                continue;
+            }
             numLits = encodeCellsMustContain(numLits, cellCoords, vs, context);
         }
         return numLits;
@@ -874,7 +1633,7 @@ export const ELEMENT_HANDLERS = {
             const isBreadLits = cellCoords.map(getBreadLit);
 
             // 2: For each possible pair of bread cells, encode a sum (kinda inefficient).
-            for (let last = 1; last < context.size; last++) {
+            for (let last = 1; last < cellCoords.length; last++) {
                 for (let frst = 0; frst < last; frst++) {
                     const weights: number[] = [];
                     const literals: number[] = [];
@@ -882,7 +1641,7 @@ export const ELEMENT_HANDLERS = {
                         const [ x, y ] = cellCoords[i];
                         // Skip 1 and 9 (max).
                         for (let v = 1; v < context.size - 1; v++) {
-                            const value = 1 + v;
+                            const value = context.minDigit + v;
                             weights.push(value)
                             literals.push(context.getLiteral(y, x, v));
                         }
@@ -906,20 +1665,22 @@ export const ELEMENT_HANDLERS = {
             const [ xCellCoord, ...restCellCoords ] = seriesIdx2CellCoords(+seriesIdx, context.grid);
             const [ x, y ] = xCellCoord;
 
-            // Deal with xSum = 1 separately:
-            if (1 === xsumOrTrue) {
-                // xCell must be 1.
-                context.clauses.push([ context.getLiteral(y, x, 0) ]);
-                continue;
-            }
-            // xCell must not be 1. Important so the remaining clauses get triggered.
-            context.clauses.push([ -context.getLiteral(y, x, 0) ]);
-
-            for (let xv = 1; xv < context.size; xv++) {
-                const sumCellCoords = restCellCoords.slice(0, xv);
-                const xValue = 1 + xv;
+            for (let xv = 0; xv < context.size; xv++) {
+                const xValue = context.minDigit + xv;
                 const xCellLit = context.getLiteral(y, x, xv);
 
+                // X cell is included in its own sum, and digits below one sum zero cells.
+                const sumCellCoords = restCellCoords.slice(0, Math.max(0, xValue - 1));
+                if (0 === sumCellCoords.length) {
+                    // xCell cannot be this value. Important so the remaining clauses get triggered.
+                    if (xsumOrTrue !== Math.max(0, xValue)) context.clauses.push([ -xCellLit ]);
+                    continue;
+                }
+                if (sumCellCoords.length < xValue - 1) {
+                    context.clauses.push([ -xCellLit ]);
+                    continue;
+                }
+
                 const prevNumClauses = context.clauses.length;
                 numLits = encodeSum(numLits, xsumOrTrue - xValue, sumCellCoords, context);
                 makeConditional([ xCellLit ], context.clauses.slice(prevNumClauses));
@@ -935,8 +1696,8 @@ export const ELEMENT_HANDLERS = {
             const cellCoords = seriesIdx2CellCoords(+seriesIdx, context.grid);
 
             // 1: CREATE LITERALS to mark if a cell is visible. Skip the first one (always visible).
-            const isVisibleLits = Array<void>(context.size - 1).fill().map(() => ++numLits);
-            for (let i = 1; i < context.size; i++) {
+            const isVisibleLits = Array<void>(cellCoords.length - 1).fill().map(() => ++numLits);
+            for (let i = 1; i < cellCoords.length; i++) {
                 const [ x, y ] = cellCoords[i];
 
                 for (let v = 0; v < context.size; v++) {
@@ -983,6 +1744,31 @@ function makeConditional(conditionConjunction: number[], clauses: number[][]): v
     }
 }
 
+/**
+ * Index cells: the digit in each of CELL_IDXES gives the position along its row (or column, if not IS_ROW) of the
+ * index cell's own column (row) number. E.g. a row index cell r3c1 with digit 5 means r3c5 has digit 1.
+ */
+function encodeIndex(numLits: number, cellIdxes: Idx<Geometry.CELL>[], isRow: boolean, context: Context): number {
+    for (const cellIdx of cellIdxes) {
+        const [ x, y ] = cellIdx2cellCoord(cellIdx, context.grid);
+        const pos = isRow ? x : y;
+        const length = isRow ? context.grid.width : context.grid.height;
+        for (const [ v ] of product(context.size)) {
+            const indexLit = context.getLiteral(y, x, v);
+            if (length <= v || context.size <= pos) {
+                // Position is outside the grid, or the target digit does not exist.
+                context.clauses.push([ -indexLit ]);
+                continue;
+            }
+            const [ tx, ty ] = isRow ? [ v, y ] : [ x, v ];
+            const targetLit = context.getLiteral(ty, tx, pos);
+            // The target digit is at the indexed position, and only there.
+            context.clauses.push([ -indexLit, targetLit ], [ indexLit, -targetLit ]);
+        }
+    }
+    return numLits;
+}
+
 function encodeClones(numLits: number, cellsA: Coord<Geometry.CELL>[], cellsB: Coord<Geometry.CELL>[], context: Context): number {
     if (cellsA.length !== cellsB.length) throw Error(`Cloned cells must be of equal length (${cellsA.length} !== ${cellsB.length}).`);
     for (let i = 0; i < cellsA.length; i++) {
@@ -1041,8 +1827,25 @@ function encodeCellsMustContain(numLits: number, cells: Coord<Geometry.CELL>[],
     return numLits;
 }
 
+/**
+ * Row or column: contains every digit exactly once if it has as many cells as there are digits,
+ * otherwise it may not repeat digits. Lines longer than the number of digits are unconstrained.
+ */
+function encodeHouse(numLits: number, cells: Coord<Geometry.CELL>[], context: Context): number {
+    if (context.size > cells.length) return encodeNoRepeats(numLits, cells, context);
+    // Remaining cells must be blank.
+    if (context.size < cells.length && !context.blanks) return numLits;
+
+    const ones = Array(cells.length).fill(1);
+    for (const [ v ] of product(context.size)) {
+        const literals = writeLitsV(cells, v, context);
+        numLits = context.pbLib.encodeBoth(ones, literals, 1, 1, context.clauses, 1 + numLits);
+    }
+    return numLits;
+}
+
 function encodeNoRepeats(numLits: number, cells: Coord<Geometry.CELL>[], context: Context): number {
-    if (context.size < cells.length) {
+    if (context.size < cells.length && !context.blanks) {
         context.clauses.push([]);
         return numLits;
     }
@@ -1066,10 +1869,61 @@ function encodeSum(numLits: number, sum: number, cells: Coord<Geometry.CELL>[],
     return context.pbLib.encodeBoth(weights, lits, sum, sum, context.clauses, 1 + numLits);
 }
 
+/** Most digit assignments encodeCageOperator may enumerate for a cage. */
+const MAX_CAGE_OPERATOR_ASSIGNMENTS = 100_000;
+
+/** Number of ways to fill NUM_CELLS cells with SIZE digits, which are distinct unless REPEAT. */
+function countCageAssignments(size: number, numCells: number, repeat: boolean): number {
+    let count = 1;
+    for (let i = 0; i < numCells; i++) count *= Math.max(0, repeat ? size : size - i);
+    return count;
+}
+
+/**
+ * Encodes an arithmetic cage by enumerating the allowed combinations of digits, each of which gets a literal
+ * implying its digits.
+ */
+function encodeCageOperator(
+    numLits: number, op: schema.CageOperator, clue: number,
+    cells: Coord<Geometry.CELL>[], repeat: boolean, context: Context
+): number {
+    if (0 >= cells.length) return numLits;
+
+    const combos: number[][] = [];
+    const vals: number[] = [];
+    const getDigits = () => vals.map(val => context.minDigit + val);
+    function enumerate(): void {
+        if (cells.length === vals.length) {
+            if (clue === evalCageOperator(op, getDigits())) combos.push(vals.slice());
+            return;
+        }
+        for (const [ v ] of product(context.size)) {
+            if (!repeat && vals.includes(v)) continue;
+            vals.push(v);
+            // Partial products must divide a nonzero clue.
+            const partial = '*' === op ? evalCageOperator(op, getDigits()) : 0;
+            if (0 === partial || 0 === clue || 0 === clue % partial) enumerate();
+            vals.pop();
+        }
+    }
+    enumerate();
+
+    const comboLits: number[] = [];
+    for (const combo of combos) {
+        const comboLit = ++numLits;
+        comboLits.push(comboLit);
+        cells.forEach(([ x, y ], i) => context.clauses.push([ -comboLit, context.getLiteral(y, x, combo[i]) ]));
+    }
+    // Empty, and therefore unsatisfiable, if no combination works.
+    context.clauses.push(comboLits);
+    return numLits;
+}
+
 function writeSum(cells: Coord<Geometry.CELL>[], context: Context, weights: number[] = [], literals: number[] = []): [ weights: number[], literals: number[] ] {
     for (const [ x, y ] of cells) {
         for (const [ v ] of product(context.size)) {
-            const value = 1 + v;
+            const value = context.minDigit + v;
+            if (0 === value) continue;
             const literal = context.getLiteral(y, x, v);
             weights.push(value);
             literals.push(literal);
@@ -1085,7 +1939,7 @@ function encodeGlobalCellPairs(
 ): number {
     for (const [ [ x0, y0 ], [ x1, y1 ] ] of cellPairsFunc(context.grid)) {
         for (const [ v0, v1 ] of product(context.size, context.size)) {
-            if (constraintFunc(v0 + 1, v1 + 1)) {
+            if (constraintFunc(context.minDigit + v0, context.minDigit + v1)) {
                 const aLit = context.getLiteral(y0, x0, v0);
                 const bLit = context.getLiteral(y1, x1, v1);
                 context.clauses.push([ -aLit, -bLit ]); // Cannot both be true.
@@ -1095,6 +1949,23 @@ function encodeGlobalCellPairs(
     return numLits;
 }
 
+/**
+ * If ELEMENT is a negative constraint, prevents digits satisfying CONSTRAINT_FUNC on every unmarked edge.
+ */
+function encodeNegativeEdges(numLits: number, element: schema.EdgeNumberElement,
+    constraintFunc: (v0: number, v1: number) => boolean, context: Context): number
+{
+    if (!element.negative) return numLits;
+
+    const value = element.value || {};
+    function* unmarkedPairs(grid: Grid): Generator<[Coord<Geometry.CELL>, Coord<Geometry.CELL>], void, void> {
+        for (const pair of getOrthogonallyAdjacentPairs(grid)) {
+            if (null == value[cellCoords2edgeIdx(...pair, grid)!]) yield pair;
+        }
+    }
+    return encodeGlobalCellPairs(numLits, context, unmarkedPairs, constraintFunc);
+}
+
 function encodeExcludeValues(numLits: number, cells: Coord<Geometry.CELL>[], excludeValues: (v: number) => boolean, context: Context): number {
     for (const [ x, y ] of cells) {
         for (const [ v ] of product(context.size)) {
@@ -1107,8 +1978,8 @@ function encodeExcludeValues(numLits: number, cells: Coord<Geometry.CELL>[], exc
     return numLits;
 }
 
-function whisperConstraint(deltaFunc: (gridWidth: number) => number, numLits: number, element: schema.LineElement, context: Context) {
-    const delta = deltaFunc(context.size); // TODO: make this configurable somehow.
+function whisperConstraint(numLits: number, element: schema.LineElement, context: Context) {
+    const delta = getLineDelta(element, context.size);
 
     for (const whisperCells of Object.values(element.value || {})) {
         const cellCoords = arrayObj2array(whisperCells || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
@@ -1127,3 +1998,32 @@ function whisperConstraint(deltaFunc: (gridWidth: number) => number, numLits: nu
     }
     return numLits;
 }
+
+/**
+ * Cells within each window of consecutive cells along the line must have digits in different classes.
+ */
+function lineClassConstraint(numLits: number, element: schema.LineElement, context: Context) {
+    const [ window, classOf ] = getLineClasses(element.type, { min: context.minDigit, max: context.minDigit + context.size - 1 })!;
+
+    for (const cells of Object.values(element.value || {})) {
+        const cellCoords = arrayObj2array(cells || {}).map(idx => cellIdx2cellCoord(idx, context.grid));
+        // Too short to contain a window.
+        if (cellCoords.length < window) continue;
+
+        for (let i = 0; i < cellCoords.length; i++) {
+            for (let j = i + 1; j < Math.min(i + window, cellCoords.length); j++) {
+                const [ x0, y0 ] = cellCoords[i];
+                const [ x1, y1 ] = cellCoords[j];
+
+                for (const [ v0, v1 ] of product(context.size, context.size)) {
+                    if (classOf(context.minDigit + v0) === classOf(context.minDigit + v1)) {
+                        const lit0 = context.getLiteral(y0, x0, v0);
+                        const lit1 = context.getLiteral(y1, x1, v1);
+                        context.clauses.push([ -lit0, -lit1 ]);
+                    }
+                }
+            }
+        }
+    }
+    return numLits;
+}
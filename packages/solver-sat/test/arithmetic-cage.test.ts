@@ -0,0 +1,79 @@
+import { cantAttempt } from "../dist/solver-sat";
+import { schema } from "@sudoku-studio/schema";
+import { create4x4Board, getSolutions } from "./helpers";
+
+type Cage = NonNullable<schema.KillerElement['value']>[string];
+
+function createBoard(cage: Omit<Cage, 'cells'>, cells: number[]): schema.Board {
+    return create4x4Board({ type: 'killer', order: 0, value: { a: { ...cage, cells: Object.fromEntries(cells.map(idx => [ idx, true ])) } } });
+}
+
+async function getCageDigits(cage: Omit<Cage, 'cells'>, cells: number[]): Promise<number[][]> {
+    const solns = await getSolutions(createBoard(cage, cells), 1000);
+    return solns.map(soln => cells.map(idx => soln[idx]!));
+}
+
+describe('Arithmetic Cages', () => {
+    // r1c1, r1c2.
+    const cells = [ 0, 1 ];
+
+    test('product', async () => {
+        const cageDigits = await getCageDigits({ sum: 12, op: '*' }, cells);
+        expect(cageDigits.length).toBeGreaterThan(0);
+        for (const [ a, b ] of cageDigits) {
+            expect(a * b).toBe(12);
+        }
+    });
+
+    test('difference', async () => {
+        const cageDigits = await getCageDigits({ sum: 3, op: '-' }, cells);
+        expect(cageDigits.length).toBeGreaterThan(0);
+        for (const [ a, b ] of cageDigits) {
+            expect(Math.abs(a - b)).toBe(3);
+        }
+    });
+
+    test('quotient', async () => {
+        const cageDigits = await getCageDigits({ sum: 2, op: '/' }, cells);
+        expect(cageDigits.length).toBeGreaterThan(0);
+        for (const [ a, b ] of cageDigits) {
+            expect(Math.max(a, b) / Math.min(a, b)).toBe(2);
+        }
+    });
+
+    test('impossible clue', async () => {
+        expect(await getCageDigits({ sum: 5, op: '*' }, cells)).toEqual([]);
+    });
+
+    test('repeated digits', async () => {
+        // r2c2, r3c3: in different rows, columns and boxes.
+        const repeatCells = [ 5, 10 ];
+        const isRepeat = ([ a, b ]: number[]) => a === b;
+
+        const distinct = await getCageDigits({ sum: 4, op: '*' }, repeatCells);
+        expect(distinct.length).toBeGreaterThan(0);
+        expect(distinct.some(isRepeat)).toBeFalsy();
+
+        const repeating = await getCageDigits({ sum: 4, op: '*', repeat: true }, repeatCells);
+        expect(repeating.some(isRepeat)).toBeTruthy();
+        for (const [ a, b ] of repeating) {
+            expect(a * b).toBe(4);
+        }
+    });
+
+    test('cantAttempt', () => {
+        expect(cantAttempt(createBoard({ sum: 1, op: '-' }, [ 0, 1, 2 ]))).not.toBeNull();
+        expect(cantAttempt(createBoard({ sum: 2, op: '/' }, [ 0, 1, 2 ]))).not.toBeNull();
+        expect(cantAttempt(createBoard({ sum: 24, op: '*' }, [ 0, 1, 2, 3 ]))).toBeNull();
+
+        // Six cells of a 9x9 row: 9!/3! distinct assignments, but 9^6 with repeats.
+        const largeCage = (repeat: boolean) => {
+            const board = createBoard({ sum: 720, op: '*', repeat }, [ 0, 1, 2, 3, 4, 5 ]);
+            board.grid = { width: 9, height: 9 };
+            delete board.elements['2'];
+            return board;
+        };
+        expect(cantAttempt(largeCage(false))).toBeNull();
+        expect(cantAttempt(largeCage(true))).not.toBeNull();
+    });
+});
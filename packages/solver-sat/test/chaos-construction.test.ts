@@ -0,0 +1,60 @@
+import { solve } from "../dist/solver-sat";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { BOXES_4X4, create4x4Board } from "./helpers";
+
+type Solution = { solution: IdxMap<Geometry.CELL, number>, regions: IdxMap<Geometry.CELL, number> };
+
+function createBoard(chaos: boolean): schema.Board {
+    return create4x4Board({ type: 'chaosConstruction', order: 0, value: chaos as any });
+}
+
+async function getSolutionsAndRegions(board: schema.Board): Promise<Solution[]> {
+    const solns: Solution[] = [];
+    const success = await solve(board, 20, (solution, regions) => {
+        if (null != solution) solns.push({ solution, regions: regions! });
+    });
+    expect(success).toBeTruthy();
+    expect(solns.length).toBeGreaterThan(0);
+    return solns;
+}
+
+function isConnected(cells: number[]): boolean {
+    const seen = new Set([ cells[0] ]);
+    const stack = [ cells[0] ];
+    while (stack.length) {
+        const idx = stack.pop()!;
+        for (const other of cells) {
+            const adjacent = 1 === Math.abs((idx % 4) - (other % 4)) + Math.abs(Math.floor(idx / 4) - Math.floor(other / 4));
+            if (adjacent && !seen.has(other)) {
+                seen.add(other);
+                stack.push(other);
+            }
+        }
+    }
+    return seen.size === cells.length;
+}
+
+describe('Chaos Construction', () => {
+    test('regions are inferred', async () => {
+        const solns = await getSolutionsAndRegions(createBoard(true));
+        for (const { solution, regions } of solns) {
+            // Regions are labelled in order of their first cell.
+            expect(regions[0]).toBe(0);
+            for (const k of [ 0, 1, 2, 3 ]) {
+                const cells = [ ...Array(16).keys() ].filter(idx => k === regions[idx]);
+                expect(cells.length).toBe(4);
+                expect(isConnected(cells)).toBeTruthy();
+                expect(new Set(cells.map(idx => solution[idx])).size).toBe(4);
+            }
+        }
+        // The gridRegion element is ignored.
+        const isBoxes = (regions: IdxMap<Geometry.CELL, number>) => BOXES_4X4.every((cells, k) => cells.every(idx => k === regions[idx]));
+        expect(solns.every(({ regions }) => isBoxes(regions))).toBeFalsy();
+    }, 30_000);
+
+    test('no regions when off', async () => {
+        for (const { regions } of await getSolutionsAndRegions(createBoard(false))) {
+            expect(regions).toBeUndefined();
+        }
+    }, 30_000);
+});
@@ -0,0 +1,43 @@
+import { CancellationToken, solve } from "../dist/solver-sat";
+import { cantAttempt as cantAttemptBacktracking, solveBacktracking } from "@sudoku-studio/solver-logical";
+import { fPuzzles } from "@sudoku-studio/board-format";
+import { arrayObj2array } from "@sudoku-studio/board-utils";
+import { ArrayObj, Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { otherBoards, sudokuSolverBoards } from "./f-puzzles-boards";
+
+type SolveFn = (board: schema.Board, maxSolutions: number,
+    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void,
+    cancellationToken: CancellationToken) => Promise<boolean>;
+
+async function getSolutions(solveFn: SolveFn, board: schema.Board, maxSolutions: number): Promise<string[]> {
+    const solutions: string[] = [];
+    const success = await solveFn(board, maxSolutions, solution => {
+        if (null != solution) solutions.push(arrayObj2array(solution as ArrayObj<number>).join(''));
+    }, {});
+    expect(success).toBeTruthy();
+    return solutions.sort();
+}
+
+describe('SAT and backtracking solvers agree', () => {
+    // Needs too deep a search without clause learning.
+    const slowBoards = [ "A Kind of Magic", "Eddies", "Orbit" ];
+    // Use constraints the backtracking solver can't handle, so adding one must remove it from this list.
+    const unsupportedBoards = [
+        "Tangled Arrows", "Boxes", "Fortress Sudoku", "Cloneways Game of Life", "Quadiagonal", "Hay Fever",
+        "Dotween", "Sandwich Sudoku", "MiniMax Sandwich", "6x6 Extreme Killer", "159",
+    ];
+
+    const allBoards = sudokuSolverBoards.concat(otherBoards)
+        .map(([ name, board64 ]) => [ name, fPuzzles.parseFpuzzles(board64, (type, value) => ({ type, value } as any)) ] as const);
+    const boards = allBoards.filter(([ name ]) => !slowBoards.includes(name) && !unsupportedBoards.includes(name));
+
+    test('unsupported boards', () => {
+        expect(allBoards.filter(([ _name, board ]) => null != cantAttemptBacktracking(board)).map(([ name ]) => name))
+            .toEqual(unsupportedBoards);
+    });
+
+    test.each(boards)('"%s"', async (_name, board) => {
+        const satSolutions = await getSolutions(solve, board, 2);
+        expect(await getSolutions(solveBacktracking, board, 2)).toEqual(satSolutions);
+    }, 60_000);
+});
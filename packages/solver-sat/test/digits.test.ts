@@ -0,0 +1,52 @@
+import { boardRepr } from "@sudoku-studio/board-utils";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+function createBoard(digits: schema.DigitSet, givensStr: string = ''): schema.Board {
+    const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+    board.meta.digits = digits;
+    const givens: IdxMap<Geometry.CELL, number> = {};
+    [ ...givensStr ].forEach((c, i) => {
+        if ('.' !== c) givens[i] = +c;
+    });
+    board.elements['10'].value = givens;
+    return board;
+}
+
+describe('Digit Sets', () => {
+    test('digits 0-8', async () => {
+        // https://en.wikipedia.org/wiki/Sudoku, with every digit decreased by one.
+        const givensStr = '42..6....5..084....87....5.7...5...23..7.2..06...1...5.5....17....308..4....7..68';
+        const board = createBoard({ min: 0, max: 8 }, givensStr);
+
+        const solns = await getSolutions(board);
+        expect(solns).toHaveLength(1);
+        const values = Object.values(solns[0]);
+        expect(values).toHaveLength(81);
+        expect(Math.min(...values as number[])).toBe(0);
+        expect(Math.max(...values as number[])).toBe(8);
+    });
+
+    test('digits 1-6 with blanks', async () => {
+        const board = createBoard({ min: 1, max: 6, blanks: true });
+        board.elements['killer'] = { type: 'killer', order: 0, value: { a: { sum: 21, cells: { 0: true, 1: true, 2: true, 3: true, 4: true, 5: true } } } };
+
+        const [ solution ] = await getSolutions(board, 1);
+        expect(solution).toBeDefined();
+        // Each row contains 1-6 once, with three blanks.
+        for (let y = 0; y < 9; y++) {
+            const row = Array.from({ length: 9 }, (_, x) => solution[9 * y + x]).filter(digit => null != digit);
+            expect(row.sort()).toEqual([ 1, 2, 3, 4, 5, 6 ]);
+        }
+        // Cage sums to 21 so has no blanks.
+        for (let x = 0; x < 6; x++) {
+            expect(solution[x]).toBeDefined();
+        }
+    });
+
+    test('given outside digit set', async () => {
+        const board = createBoard({ min: 1, max: 8, blanks: true }, '9');
+        const solns = await getSolutions(board);
+        expect(solns).toHaveLength(0);
+    });
+});
@@ -0,0 +1,44 @@
+import { toDimacs } from "../dist/solver-sat";
+import { boardRepr } from "@sudoku-studio/board-utils";
+
+function parseDimacs(dimacs: string): { header: string[], numVars: number, clauses: number[][] } {
+    const lines = dimacs.trim().split('\n');
+    const header = lines.filter(line => line.startsWith('c '));
+    const problem = lines.find(line => line.startsWith('p '))!;
+    const [ _p, _cnf, numVars, numClauses ] = problem.split(' ');
+
+    const clauses = lines
+        .filter(line => !line.startsWith('c ') && !line.startsWith('p '))
+        .map(line => line.split(' ').map(Number));
+    for (const clause of clauses) {
+        expect(clause.pop()).toBe(0);
+    }
+    expect(clauses.length).toBe(+numClauses);
+    return { header, numVars: +numVars, clauses };
+}
+
+describe('DIMACS Export', () => {
+    test('classic with a killer cage', async () => {
+        const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+        board.elements['10'].value = { 0: 5, 80: 1 };
+        board.elements['cage'] = { type: 'killer', order: 0, value: { a: { sum: 10, cells: { 1: true, 2: true } } } };
+
+        const { header, numVars, clauses } = parseDimacs(await toDimacs(board));
+
+        expect(header).toContain('c r1c1: 1-9');
+        expect(header).toContain('c r9c9: 721-729');
+
+        // Sum encoding adds auxiliary variables.
+        expect(numVars).toBeGreaterThan(729);
+        for (const clause of clauses) {
+            for (const literal of clause) {
+                expect(Math.abs(literal)).toBeGreaterThanOrEqual(1);
+                expect(Math.abs(literal)).toBeLessThanOrEqual(numVars);
+            }
+        }
+
+        // Givens: r1c1 is 5, r9c9 is 1.
+        expect(clauses).toContainEqual([ 5 ]);
+        expect(clauses).toContainEqual([ 721 ]);
+    });
+});
@@ -0,0 +1,24 @@
+import { cantAttempt } from "../dist/solver-sat";
+import { BOXES_4X4, create4x4Board, getSolutions } from "./helpers";
+
+describe('Disjoint Groups', () => {
+    test('groups follow 2x2 boxes', async () => {
+        const board = create4x4Board({ type: 'disjointGroups', order: 0, value: true });
+        expect(cantAttempt(board)).toBeNull();
+
+        const solns = await getSolutions(board, 100);
+        expect(solns.length).toBeGreaterThan(0);
+        for (const solution of solns) {
+            for (const pos of [ 0, 1, 2, 3 ]) {
+                expect(new Set(BOXES_4X4.map(cells => solution[cells[pos]])).size).toBe(4);
+            }
+        }
+    });
+
+    test('cantAttempt with chaos construction', () => {
+        const board = create4x4Board(
+            { type: 'disjointGroups', order: 0, value: true },
+            { type: 'chaosConstruction', order: 0, value: true });
+        expect(cantAttempt(board)).not.toBeNull();
+    });
+});
@@ -0,0 +1,42 @@
+import { explainUnsat } from "../dist/solver-sat";
+import { boardRepr } from "@sudoku-studio/board-utils";
+import { schema } from "@sudoku-studio/schema";
+
+function createBoard(): schema.Board {
+    const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+    board.elements['10'].value = { 0: 1 };
+    board.elements['knight'] = { type: 'knight', order: 0, value: true } as any;
+    return board;
+}
+
+async function getExplanation(board: schema.Board): Promise<null | string[]> {
+    let elementIds: undefined | null | string[] = undefined;
+    const success = await explainUnsat(board, ids => elementIds = ids);
+    expect(success).toBeTruthy();
+    expect(elementIds).not.toBeUndefined();
+    return elementIds!;
+}
+
+describe('Explain Unsat', () => {
+    test('solvable', async () => {
+        const board = createBoard();
+        expect(await getExplanation(board)).toBeNull();
+    });
+
+    test('killer cage conflicts with given', async () => {
+        const board = createBoard();
+        board.elements['cage'] = { type: 'killer', order: 0, value: { a: { sum: 11, cells: { 0: true, 1: true } } } };
+
+        const elementIds = await getExplanation(board);
+        expect(elementIds!.sort()).toEqual([ '10', 'cage' ]);
+    });
+
+    test('conflicting givens', async () => {
+        const board = createBoard();
+        board.elements['10'].value = { 0: 1, 8: 1 };
+        board.elements['cage'] = { type: 'killer', order: 0, value: { a: { sum: 17, cells: { 40: true, 41: true } } } };
+
+        const elementIds = await getExplanation(board);
+        expect(elementIds).toEqual([ '10' ]);
+    });
+});
@@ -0,0 +1,28 @@
+import { solve } from "../dist/solver-sat";
+import { fPuzzles } from "@sudoku-studio/board-format";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+
+describe('Extra Regions', () => {
+    // 4x4 with an extra region on r1c1, r2c3, r3c2 and r4c4.
+    const board = fPuzzles.parseFpuzzles('N4IgzglgXgpiBcAWANCA5gJwgEwQbT2AF9ljSTiBdZQiu86285qms9uy6kGADwBcMAQwww0EAPYA7fKADGMADaKw+EACUAjAGFNIVOoBM2gMz6NJ7YfPrE2xCEpEnQA=',
+        (type, value) => ({ type, value } as any));
+    const cells = [ 0, 6, 9, 15 ];
+
+    test('f-puzzles import', () => {
+        expect(Object.values(board.elements).some(({ type }) => 'killer' === type)).toBeFalsy();
+        const regions = Object.values(board.elements).filter(({ type }) => 'extraRegion' === type) as schema.ExtraRegionElement[];
+        expect(regions.map(({ value }) => Object.values(value!).map(region => Object.keys(region).map(Number)))).toEqual([ [ cells ] ]);
+    });
+
+    test('digits do not repeat', async () => {
+        const solutions: IdxMap<Geometry.CELL, number>[] = [];
+        const success = await solve(board, 1000, soln => {
+            if (null != soln) solutions.push(soln);
+        });
+        expect(success).toBeTruthy();
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            expect(new Set(cells.map(idx => solution[idx])).size).toBe(cells.length);
+        }
+    });
+});
@@ -2,85 +2,9 @@ import { CancellationToken, cantAttempt, solve } from "../dist/solver-sat";
 import { fPuzzles } from "@sudoku-studio/board-format";
 import { arrayObj2array } from "@sudoku-studio/board-utils";
 import { ArrayObj, Geometry, IdxMap } from "@sudoku-studio/schema";
+import { otherBoards, sudokuSolverBoards } from "./f-puzzles-boards";
 
 describe('FPuzzles', () => {
-    // From https://github.com/dclamage/SudokuSolver/blob/master/SudokuTests/Puzzles.cs
-    const sudokuSolverBoards = [
-        // "Clipped" by glum_hippo: Arrow, Thermo, Givens, King
-        [ "Clipped", "N4IgzglgXgpiBcBOANCALhNAbO8QGEsIAHYmAExFQEMBXNACwHsAnBEABQYiNIAIAQlloBbGH2oBranwDmwkQH1upJlRAtaOMDDTsAyrXJNJtPgFo+MAG4wWATz4smAd2R8AxkwUA7d9R9yPgBmAA9gvgAjJlC+EVowNE8mHzRqCB8JLCw+RnFyCFlMMD4AM2cRPgBGc0QAOj59JjE+AqK0EuoWcWosbupyRyLbHzqAHR8JgEFUiHMAaQzZCysAR1pe1sLiuOpHHyYktCZaDwYt6lkU3qx7ccmfABUGOxFm3TsVtp34xL5ElgQDzYRwZDz9HRlCpRLSRXJMXIke7TFjOFwrPKeCAsDw4ILfJJeHyJTD0GAlTFgUR8JilXIvLbtTpYFLLTFdNH3dSyQGUeAAbX5wAAvsgRWLReKpZKZRKALrIIWy6US1UqkUKpVq5Ugay9Wi4ABsqGGMB8CDQmhgyptmvVNu12rtOr1wlwAFYTRARharS79bgql6ffBLQb/W6EAAWYNm33hp2K+2O5MapMOqW6gMIYKx82hv0pmXOoul6Ul1MZ4sKkABDCSJbxmCoPIsN5iNB2BBCkBEHzk7v8kAAJUN+Hd6mHAHZ8FHJwAOfDBBf4ABMIDlcslvYyA4FQ+H7rXk6jS8nwVnk9Xl83277e8FI9PE9Qw4vhqv+Cnn/nG63Yp3fswEHEcj1/V8x2/V8Zw/V9Fw/W8aw5Vxu1Ae9gP3UDL1fU9l1fC911fa9103VAPBgbIMIPI853/NDdyo6j8FgkdIMnGdwJHRdf1IkByMo7ssIQu8GJA4dFxfEcZznCCz1kkia34rAqK48cNxEoCxOvSS32Yk8v30njFIo5TBOHbT1IA9CxJnPDVJkkdEDU3ilJU6czy3LcgA=", "867452931342891675519763284984327156635918427721645398498536712276189543153274869" ],
-
-        // "Blitz" by Patrick: Killer (with and without sums), Little Killer, Even, Odd
-        [ "Blitz", "N4IgzglgXgpiBcBOANCALhNAbO8QCEtMoRUBDAVzQAsB7AJwRAAUy16IBjAa1JHoo4wMNEwByDALZksAAgDKFACa1uFZLIDSELDnqyAwmQDmMMBoAymbDC069GgPJKlGgKIA3GADsAdH2MOJQQAbRDgAF9kSOiomPi4xNiAXWRwpITYrMzI1PTsjMKCvJyi0pS08qrCkrK64sr66or85urags721JBaF1DQThhdJgAlADYDcZA4kCGRvFGAJgMAZhnoueGsMcQDRBmemC9vAa2FkFGAFgMljcHtsYBGAwBWQ9Ruexh6ThNccLnLBgUKXFbrVCjVZrPjXW6wm4Qy6veGQyZPWGTO6QgDsBgxkIAHPiQMlZvNgaDllNYdDppCbu8GTTISimZdJldMW9YXiuUSDFyyZsKSD4CEwftaVLmYSETLkQY5WiDDjucrLni1QK1cKHroxRLRiiDirTZqFaNifTLsTzaM9jaHarYXsNc6DnqgYbLi8Cb7UQGkaMXvzJf7qWGoSTmRGURivaKqS92SGWQHtZLUytM9Go9DU9DczcheTtj6JunRnjg3jU3incTg8TU3tg3so3t3ony1S9hG9nceh4ZBRcCA1WWDVS8djbfDh6Px08uVPKeLJXPo0PUCOsGOmE9pmuK3j3cS5Yv9+PVyLexvjTDWYLuesrwe8E85SeqTdcyinRRXVdyXJhvzvacHxed0Xk9EDr0PDEfwfFZ3WhS94I/EAnjuCIeiINAbC+XQfjAChJDOCkxgABhfVAkygp9N2lBNUCUCB6BgTgMFoU48AAEQsPg9ywp5JwgnZFlom0GKNF5c1Q6U4JAdjOO4iBeKYfjRmE0DP3A/VJMuG5qL4WTFQjLFeSYq06MuLtSTYjiuJ4viQG03SELwJZ1jwiIgA", "132748956475916283896352741528637194619284375347195628781469532964523817253871469" ],
-
-        // "Self-contained" by Lavaloid (killer, knight)
-        [ "Self-contained", "N4IgzglgXgpiBcBOANCALhNAbO8QGUYsAzAWgGMB7AOzQEMJqYATEVOgVzQAtKAnBCAAydAG50slCK1R8OOMDDSCA1AAIAcvwC2EtWA7NKAaw5q5CtXQAO1rAE8AdAB1qAUVEw+985QDuyGpUWBza1IF01MxqAMwAHjFqAEaUcUE09IxgVlhYaswQAOaY2cR8lNpqAIxqaJRqiC7UruoAgrQQxtRF3Gjm8jBWtlgQMGBNACJFJfow1nR8dGgsyT50Qdxj2V09aADk2dqUnmq6PtSUfUmD0jAd5BJNLWoA0hC5Xv04Q3aj465TYpobKMKxBOiFQbaDhgPoGSp1WqbNTUULXPhqPx8TDLahqUE8QZ1axqHDENCONSAmbQ2Eoy7mOYwJb4vHrB6QxxsECFbGseAAbQFwAAvshReKxRLpVLZZKALrIYVymWStWq0WK5XqkDkQQAYgmAAZjQAxU0gKW6g3Gs0Wq16vCGk1G82W8XWp22132j2OkDOu3umVajWegPet0Om0uqN+mNB6Ne2O+0D+wM+4Oy0Mq8MZuNphOZpMRlPBvOR1MVssqkU5nXpyvlxs1+PJxNt0sdwvt4vqutKsMt7vVkfDvs9rsT0cT7OD2v9xch+dLhcauuKkCRDA7Qq9BBoOQwVDGd44Pgc3DC3VELBgBACkAAJQAbABhGLcp8Adg/X9/AAsICbuIIS4CAABMn4Ore96Cs+AF/qgT6IUByGIQArMBqCgRw4FQc2sEPs+MRISRb5ASBEh4YIAAchG5HBj5PhhZEsRRX7vpROHUeBVRYTBjHEexWHIe+onPu+L7YSAuF8YgDF3sJiHfl+rHSchrGqVRYGCFUQGCUp8FPqREkmW+Gnkap6EWTJcl6QJfpEcZv5mb+0k6TReD0YZTGSW+1nPr+2k8bpeDSXWIpAA===", "653418279174259863982673451528961347317542986496387512769835124831724695245196738" ],
-
-        // "Killer Blister" by Rangsk (Killer, Little Killer)
-        [ "Killer Blister", "N4IgzglgXgpiBcBOANCALhNAbO8QGkIscAnAAgCEsIw0YSRUBDAVzQAsB7BvAJSYB2AczABrRiBIscYGGgQgActwC2TLGQDKLACadRLMlJlkmABzNYAngDoAOgIea0gnUxI6yhYvXhkAKuwwZDoQQphgZBACpmQAxkxCwWAsKmRonOlB8VgswdFZwRlmZDgAZmhknGWF8YkwNmQAImERdQICnJUkMGYwTJUFTHVJ9o4Czq7ungAymNjB3qR+AMK5MJGcbJA6RdlCJBCe0aEJdLUpadW1oeFokeqcwrVmnNF0nqGJT+o2EgdHBAAbSBwAAvshwZCIVDYTD4dCALrIUEIuHQjHo8HI1GYtH4vE4rEE4lIlGkin4okkmmE8m0ylk3GMynUvHs1nIkCiIikBJJYGgOIwYhgYEgXgAZhWAEYJLwACyykBcgBu6jyCgA7CAYSBhaLxYqVgAmeVKyUq1Dq9YKS16g1YMXwIESgCsKwV8o9bu9KwAbFaQDbNXgdQ6RU6jf6VjrULwYwAOeUxxDyrUrNNqjW4EAygAMush+sjztdvBNK0t8elZprVaDIdzMuTEcNLolMbl8Yz3YlieV2dteBNhbbUY7vAzcYlGeT8YHM94A+TQ9DebN47LEplK198cr+4l0qPxt9a+bga30b3KYD6dvPfvC8f/fvF7treLju3y9N8oHas3y9D88BlcNv1LI1d0DeNdyXXd5wlSsdVAkATSvSD23LaVYOPWN5WlJCpUzRscwUGVNy5ag0AWHkfBIS5BRLYgFGNQtUB/I1pT7Ct/zghsuVCHo4gwJ4FAAVV4CQmwUUciyFSM2IHAsJC4ycMzTeMkz9JclTwkjT0rL0BMtISIBEsSBEkmYZPIvBJQgxTWL4AtX3U8tEE9ACGyfOtO0HVBhJgUSIHEvAJNs617I3BSWKwNi3I4+Lfy83iB38qdfICkz3VfY0DOlJdK2I3csyCiyQqsyTpOi4cQDdL0wURMEgA", "249516837185347962376982154421639785758421396693875421917268543564793218832154679" ],
-
-        // "300 Subs!" by Rangsk (Thermo, Kropki w/no negative constraint)
-        [ "300 Subs!", "N4IgzglgXgpiBcBOANCALhNAbO8QGYAGQgAgGUBXAIzAEIRUBDCtACwHsAnBEAJUYB2AczABrBiE4UcYGGh4A5LgFtGWchQAm7URRJSZJRgAdjWAJ4A6ADoDbZNIM2NOmkmxidl7ZXM9h4EgARCCFMMBIwNE4IAGNscxIIAVjOGEZZEgAzTh93VhgSKmkqEhgBTRs7AQcnFzcAaVzjUQgSAAoBdhIBGCFGDAA3Qtj2ASjORmS0AEpAkLC0CNljFwGYNypExhIAd1ZMQu00IzSSUfGYWJYIYctg0PDImFXJtA2i7aKsRljREmOJFYjGGRhIAEZ4AAmfQDCDsSwSIQxTQIADaaOAAF9kNjcTi8YSCcT8QBdZCYklE/E06nY8mU2lU5lMhl0lnsskUzk85lsjkC1ncwW8rmM0W8/lM6WS8noApeHx+bjwTEgLDJGBgdFovj4ADCABYJLxDUaTQBWc2oXhWi2W/UANhNZudNoNbr1+vtpNJBPVmu1qt1tv1AHYTY7wyaw9GbbGABwx/WISMph2pm1WpO+/0a3pBjF8cH68EmqH6qEmg34F2Vh21m1Rqvx0sgXNyzQQLJZTzlWK4NUDrBYQt8RDWvgJ81+3EgYej9FT70mic+/0Lse8acRm0TiOz0Cbpe8Cu7vgV52H+cwEdbqP2pszrFyt7w9FH2+L1UXye8EvGtex4/tu+pJja06pkBX5btOLbLrW0F3ieJbnqe0ZId+IbTsaEErn6fpAA=", "135462879729853461684197523851276934296345187473981256962718345548639712317524698" ],
-
-        // "Tangled Arrows" by Madison Silver (Diagonal +, odd, even, palindrome, clone, arrow)
-        [ "Tangled Arrows", "N4IgzglgXgpiBcBOANCALhNAbO8QBUBDAOwHMcATAAgEEAnOgewHcwRVCBXNAC0boQgAsoQoQwjYlQDKELADcYA1HU44wMNIIC0AOX4BbQlhmcKjANacqAJTUwwVQgAdnWAJ4AdYtoDCMLCxHZkweKlI6GHcqMABHTkJIxwNOMDQqAGNJNEIIKRhFKTFSTDAAOm8/AKCqEN5wyOiMiDoM9SoUtMzs3KlGCmpi0oqfABEIErRHY0lSJylEpmYYzgMqNEZ1nhgqYlWAIyUqPK2drOJiGAy0GGpm1pwR7XHJ5MJo4kZ0yOcYQnSZmRTsdiGIMv9blQxIRSJJjE8AOKNKhYPIOJyRKjOYx5ChMAzogAUGniMGIGXRjAAZlCJqVajwIBkwokdpFRMCwIQCVR9oQMhZmIlqIRHFT+EK6BQygBKSr4bbrZibfZYThsmAlSTTTFtSQOMrsEARCAUBAAbXNwAAvsgbXbbfanY6XQ6ALrIK2u50O30+m0er1+kAZQQAYlGAAYowAxGMgR0h8NR2Px73p92e/1JvAR6ORuMJu05kB51NF/3pwOVv0Z53Vuvektlgtp4uh3Mp1sVl0N2v90Ad0tdwuJoct0e1vs1me9rONgdVj0gaGw4jGADUCDQqhgqH6ZvgVpD1UENgALL5zxWT4Ez5eAKw3il3vA2ABsvifY9Pb4ATL4f7Pr+IA2AAHL4YHAa+oEAOyAdBWBngAzJBCbLgUZIWoOIEfr476IWeiBoT+ME2AAjAh1rLtiqKgviuDHnRDgWuacG+MhRp4ZxqA2A+V4gG6bqJsxbBHmxNiobBXGXtJvH8QRQkiWiYmWqBn5Qbxn5yexmnsdJSnFqJrGgahPGmQhvGXuZF4IYZoDGeJoEAUBvGoeRMm+B59kgI5angWhvHwYgXGfiFSnLnqlzYbeQQWhZNmodeVkcZ516RVg+r+IEqnqfhoW+DpNjwQRQWFYJ1EcAwLAxX5EmfsloH8Y1tnpZF1S5Xh6XKZcqkSZepVNflWn5UJqAvnFR6gQNFVGSpJkUcNzlLZJo3tTl8WLYpPUsU5NjES1EEtfBbXjR1m0HbNDnzXt8E2RBrmgcR3nrZNEl3Vdvk3f5UlcQBemLeFr2db9wlzb1C38TZ1meUBY2xZ1UOfXVQ1FdpBVQfDE2I+VwnCUAA===", "549328761678941235132567498723156984815794623964832517497283156356419872281675349" ],
-
-        // "Boxes" by Clover (Killer, Quadruple)
-        [ "Boxes", "N4IgzglgXgpiBcBOANCALhNAbO8QCEB7ADxjBFQEMBXNAC0ICcEQBjLQgNxkYEIKQjajjAw0LAMppKAOwAmlRnIAEYanMIBrasqEjllAA6GsATwB0ygDoybAEQgBzTGGUQZB5a0qOYygLaUpsoyhGi6MIYwlOGyKv7UYOFq/spohGl0fpyUWNR+7nIQ3mgwKgAUEABmyoaMXBByZQCUljb2Ti5uHpTKAO50mH6sEIzsfglJBsbRjKqE/jADPAUe9H5VhNRzrDBYWK5qjPXU8u6OmcOj45YCjoyNCADaT8AAvsjvnx9fvz//3wAushXgC/t8IeD3sDQZCwfC4TCoQjkUCQaiMfCkSicYj0bjMWjYYTMdi4eTScCQJoIPseN5fM9QLt9uR4E8QAAlADMAGFuQIebyACyC4X8kBUnJ5XAgACMcpAPzYewOzy5fIAbIK+QB2MW8/VS3L5Fhy0XKllq9lczWGwW63na1Ccx1G1DS014OX6y2qtkczl2gUux0hrmO0XGmUsABMAAYlZ8Vaz1ZyABy8gCsgsQ2clHpNsrlsaTzP9aazvMVLqrpejXvlpb9qZtQvTOt5iANHZd4u7gJb1sDdprtt5pdD1YdE8lQ4D497Ed5S4zTsFmf1LszHYbstjivnadjs5dJ/DnJPopdfMnXPF9cLMbwsebVIAjtRKHIhCZcK8U2HDUJRvEUDQvcUoyffIA25ZBhWQLNB2TK0FyFZ1gK3e91z7e09wDBCs2QTVkPLVsRxw8csNdSiaPdEBPTIZ4iM1ZBdVIwC0ODQU7WvZcL0jAsGKLANWN1ZB0w41C0zlMCXVknMzzkrkTxzfDnjlZBY0Q5BECkis2yrVcq27F07VXO0B2gpj2U07SiL0t5ByAA=", "641958273539217846872463519915324687486179325327685491198546732753892164264731958" ],
-
-        // "Fortress Sudoku" by glum_hippo: Maximum
-        [ "Fortress Sudoku", "N4IgzglgXgpiBcBOANCALhNAbO8QDEB7AJzWJjDAAIBlAVwBNCBrOkVAQzrQAsSEQABR4QsEAA7iqAISx0AtjGRUOzDlQDmc+QH0RkwuxDE6OMDDQCAMjABmaQgDcYxKreKF5VACI0AslQATAAMgQCMAHQAOgB2sQDi5ACeVADGMFhY1KmEMWgcEDFUDBAamNRYHMQaLlS8HEUNKSS8hBq5HJkpHAwAVhzpeVQA7iJoMGkZWBFGGsQQDAgA2kugjp10uGGoZc4xCGSbAL7IwCdnp+dXlzdnALrIq9cXL88g63K4AOw7EHsHJhgzyODyep3eG1wAGZfv94IcgbdgUjwR9NggUCBdjB9vDASDHq9bhDPggACywnEA44oon3QnIukk9HwACslNxCMZBNWzNwFKxfypeJpdO5qMhCAAbBzqYj6WCxbTgaCmWjcDLBXCucT1Qh2VrhTqlQqTeK1pL4AAOWUi+Ugh4geQcAAeEHkCmWoHSmQEACUpQBhQIgc4gH1Yf2s4Oh8ERqOBqGx71Tf1kxPJ8OpvB+9NkzPxnPR1kF7MgAOBqWl305oNfauRouB+thwvl6NWhtpwOd1tlv2BZtdnODqt9mvlwcl8eNyeB/Mz/2DpOLnNWjOr8vrhdx/vr6e7id+9djw+z49DkFHIA", "194573628528694713637281549769428351382165974451937862843716295216859437975342186" ],
-
-        // "Cloneways Game of Life" by ahaupt, Botaku, Ben, Xoned, Philip Newman, Hackiisan, ICHUTES, Qinlux, Gliperal (Killer, Minimum, Maximum, XV, Arrows, Clones)
-        [ "Cloneways Game of Life", "N4IgzglgXgpiBcBOANCALhNAbO8QGEsB7AOxgHcBDATzAAIBxSgWxjqIDM6AZCDuVJQCuaABZEATghAA1ShIhEhYEKglCcYGGmkA5Sc0pY6AY2Jk66zXUoAHW1mp0AFCcoBzGPU50xbMCxsJkTEEjYSbBAAJjAkGG5YAJQAOiT6EobGzBAkAPSGAB429o6p6Zl0AIISEkTklhpexQ7UZQZGdAAauTIN1nYtLiREdGTulBgAbkGkYGgSlDloKSQAQtTwqZSiwrZoqatEaJQA1kIHsamdpDBRqQAKohBYELZ0uhSGJKkAEpQmJwgEAC3xIAEl8D8AKoAFQAogBlVIARRyWCEBVSDBethgCywqhA7gUUQQAG0yaATNIAMSrAAMADFGQyQABfZBU2kM5msjlcvA05m8+nszkgamC4Us0X8uWc+XANkAXWQlIl3KZMrFApAdK1fPFkr10sNuqFwrNGqlltlCqNmpFOutep52rlqspiv5LotTu9DsFbqtxv1/oVnvNzMq9JjztD0djdqjjJjcYDSvtmaVkYzvtNyfztp1PoTqaT8dpifTgZN5fTuazparxebNvDKY73sb2cVRa7tb97sHBZLPd9wcLocnJabI9b847/fd4+nBqnjuHvbnna3KtVEvMuHVJhgWCwKngZJAACUAIz4ADMhPv+AALC+AExPr/v38AVhfR8/wPMwbnwM8L3JW9/z/VAb1gwD4IANjg29UKQ9D8GQl8AHZ8EA5VS0gy9rwQtDyMwm9UI/FCCJfVCcPg/DCNQMCyAg89SNvfDcLw/AAA4XwE/A+PgkShPE/BEBfRBBJAIijRI6Cb14/jJNvESxM0+SpJk+C5KE0Cj04qCr1vB9n3gh9aNvb8rLsijvyo4CP0UqllPM187xfB9P1/Hz4O/fzjPAzyyO/bSb2/DSb2AqLgKM4iuJUyLf1i+KgPk0KOPCnT/Kkhybzkgrbzk593IlPKbxE0qap/Az8Dq8qFLYkzqofQKLKagLfxC5KzLI2Cotg2LYJknKYFM7ibzffAutmnr4LmiqBpmuaFrmuqVtaw8wpSrzhpfUbjukhSVUEGo6nJUAXjIUiyJ2+DYNs6j6OY7DhNE2TstA6qtpfHbKrurxySGs7nt0mDvuVP6DvBiafRBh6sKY6G0cWjG5r42G2OqxjzvFZGwcc2Lv307qJrhwbSfOg9shICBmCEZgbqq89pHq/yLpAQomZZtnTw5vBor/AbOfwnyeYKSZBeqiSvpx1BJiMIRcBATp43l77GqVkAVfRdWZHZUCPGPDz4e6ha/N6oKeoPJRsByKbaXpN33cJDhSDQfBXfdt2tct18ips38iu/V7nKytzUEdkHfcFf2A9QL24gTvUk6naqXtOqiaIY97Uf41iQDj5305pTPPe9iuq7WlS1I+2KtK+5uIbK7LY5EeO/f96u097j368OnXobGs6He78vB+TkBU59mes6DjbAaW28ga7p2OMX/uF8TpPA5p0WopirKEs70up+3/e+5Tmud+Hsjaq+oqSp+irN57m+Pbvgfv4DlUbIgA==", "256734981731986254498215736819452367542673819367198542984521673625347198173869425" ],
-
-        // "Quadiagonal" by Tyrgannus (Disjoint, Quad)
-        [ "Quadiagonal", "N4IgzglgXgpiBcBOANCALhNAbO8QEUBXAQwBMJiBzAewDtisRVjC0ALagJwRABUBPTpWK1ahMExCdCOMDDQ8AtADkuAWwYACMIVLUA1oU3TZm4gAdzWfgB1aigMpoRpYp1KbyYAFbUItNE0AdzYYThhPCEpMME0AYxFaakCAIwj/TXYIsGI1CPCwcxg4zAA3CLiYLCxNDLUZDCt8mGi6MDtFAHU2TAqITjjTNwiARxJSWJCwiJhiOLZNMTU0zlraTND4/sGI+rBUiPMCmADtajyp8LWNiqqsWKz4rEJ0h+pCef9KADpJSk4IKQEABtYHAAC+yAhUMh0LhsIRMIAusgwYj4TDMRiISi0Vj0QT8bjsYSScjUWTKQTiaTaUSKXSqeS8UyqTT8Ry2SiQF5fP40P93uYJPA0NIYKgxmRpE0QaBKtURcCQAAlACMAGEABySdUaxC6gBM2qN+pA3NKDBeSrVyAALMgAKzIRBI2EgBX3EGqu0ax2630ANl1jr9IY1wYtVpgNvtyC1LrdUI9dyVqoA7BrDbrMwBmXVarMFjX5qPPGMg3PIdPxxPuz1plWZnWoJtm1uFluqwsGsvWkGG5BVwPVpPy1PevXZ1ua/Ot43T1XG0uoS3l2OD52BscpxWT3Ma9O6g9dlW+o+t306vsV+DAu07huTwMl3Uvu051+tzMfm9Kw2PhOd6qgewatgeF4+hGAaHuaq7Rkqw6AXuwEqsaaqmouKoHhh4FFn+A7IV6qHGmBS6wXhZHYbBBF3oOVY1lqRGNqGH6tqG/qtu+b5hrRwKuvWQHKiqha4d2RatogGpiSqUnZnxVaOm6bpAA=", "761839254325467819849152367972318645153694782684275931497586123238941576516723498" ],
-
-        // "Just add Color" by Polycarp (Disjoint, Knight, Kropki, Thermo, Little Killer)
-        [ "Just add Color", "N4IgzglgXgpiBcBOANCALhNAbO8QCkBXMNAAgEEATS0gYQHst7CAnEVAQ0LQAt628ABUYBPAMYcWAB3YgWhHGBhoEIAHL8AthyykAyoUr0A1oVIAlBTDAA6UgBEIYAFb0IAOzJK0YUmPruJCwcHmh25J4QALTG7hAA5jxk/oFowaF2AEJYHGLGpEY+pJIwpACM8ABMpMEY9HYaZDq6hb7xEABuMO52emgc7pSSNAAqPDAsmvQ1VrakGpM6fhzxpfKKDVpLADKY2KUA0hBYOCz6hJq+6zA2svEsEJQIANrPwAC+yB9fn99/vwCfgBdZBvQH/H6QiEfEFgqHghHw2HQxEo4GgtGYhHI1G4pEYvFY9FwolYnHwilkkEgAYYWIJJIINKEGCoShOVyhe7MKRgJnyVnocaTeiaZQTF6gLAeawvZ4gcwAFloiFk5gArCqQECgb8QNL3LL4K8FZr1WqAGy0c06vUGo0m8wADloFrViFd2t11OlaH2xmOpzAF0lIDEMBOqnMZQADLRFbJwyc+caFR7zahnZ7MwB2Wg5y20J1qzWq6nslgwMR1dyqACq5lkHR0LNUAGYYyB3tTahB6KGk1gU/Lo7RKmqyrQ29q9YPhwrJwnM5Pp7qvmGI0OXgvrRP4zP13Pt+Y21O1ZUz2vQEfUyf95nT6vZ5v53fx5mL+Orxvk8eL6qHy1b8bxHPNi0zF1i2Al9j1PJcFWVBNoN/W9lQzBD92Qrdb01MpCzwrDX2VadM01J9Dxg28LzdD9d0I49JwLWiC3o29TwAhVTyg58UJHTUmIVK0WJ47CRytGjBPzA9r0o0CxzVF0vxE18PTwzMPSUijeIVPN0KzG1lIY7Md2ErTRJ0rVcyLGddSAA==", "912483675786512394543697812294368157678251439351974286839746521167825943425139768" ],
-
-        // "Hay Fever" by G (Thermo, Between Line, Kropki)
-        [ "Hay Fever", "N4IgzglgXgpiBcBOANCALhNAbO8QAkBDATwAIAxGANxgCcRVCBXNACwHt68BxBkWpjjAw0CEAEEADpKxkAdpwC2hLKTBMAJuwDWTUgKEA6UuKzs5Ac1Js6i9opF0wyUhogXMYUhDkBjWjCEwqQAZrT21qwwpABGgjHGACLunqTmpFg+MF6+5nIwvhiWkbb2jrReikxgaLHRMSIA7jAwcpHswXFYMaRyTIoNFcYA6qyY0VpoOXkFtblywr4sEDSuKVOkhHIasViEvtqu7Bvz+YVrHhuNmKybpACM8ABM+oQY7MYAcsebWKqTXkIAVIHhockMfAstAgGgQAG04cAAL7IZGolFozEY7HogC6yEROKx6JJxOR+MJpKJ1KpFLJNPpeIJjJZ1LpDI5tOZnNZTMpvNZ7KpwsF+PQUVodgcaDo8NAmXyYHhcJAACUABwAYXVfFViE1iBAuNxGJACuyyrVAHZNU9dVr7rr9XbjabzUr4Ai1U9NVbdfdtbqfYbXaizVkPV6NYHUNG/bGbQA2XU2gCsKc1ABYjSaw+7LdGdQmY2rE77dany7HM+XQ/KIwWfXbYwGAMxBrO61ua9N18OKxu2ruax3Voexyvtvv5z0q1VN/1D11itwhEJ0Vq+XCIkBbv6R0s9jO9017rAH1WV5MT2unmD7+GH6/WzXJ3OgM8XsvP1Vlv0msVaDeCB2DlXd73PR9VW7Zs1W7Kc7wfT1vU1dtY3go0kTFBo0GaVpzTAmcowXdDUN1GtsxvdNY2/DN4zVLUdWnBtZxfWDfzIm9KLVGtqLg18O3/ACkSAA===", "197256384352841769684793125275369841418527693936184572821975436549638217763412958" ],
-
-        // "Dotween" by Jodawo (Between Line, Kropki)
-        [ "Dotween", "N4IgzglgXgpiBcBOANCALhNAbO8QBEB7NAdxhgDsRUBDAVzQAtCAnBEAKUIBMaTDqIFnRxgYadgDlWAWxpYABAGU63QgGs6C4aIU0ADvqwBPAHQAdCpcl0ZAIxgswerIQoBzPQvMgAQuLJKBQAZCAoYHwUZOjA0BUYaADcYL0T5OhSHUnIKBSYUtKwM50IAMzzGFIpbBycFNwVMZwBjCBZm0WQFCmJGig6YiGSLKwpfLBpm9QUAaRZCfXUIBSI0ZzDuCGaaNBhnGgUARngAJm0diEIFLMDc/IVN9ybTBWk4+UVxyem5haWV4j7FgpJ7JCgjSwAdUYmBSv0Wy1W6wom22u2c91IV2aMCwWCBKWabjEzQYQxgLzeLkU0Nhs3mCIBaz0wIUoMopkEMPcjCwEB5aAAwm5SnzmmsEKV5GJUO4WBBuAgANpK4AAX2Q6s1Gq1up1+u1AF1kKqDXrtRbzerjabLWb7XabVaHc6jSbXR77U6XT7He7fZ63bbA57vXbw6HjSBNqVSo5KDjlaAcXiwMqQAAlABsgoAzIJs4KACwgQ06kAp/Hpwsl1AZgDsxdL5crafgSszjdrnbzzc1FdxVfbmZz+brjfzZf7rerJ0F9YLc4AHH3k4O2x2M4d54ud1O16nq9uTruT2WoywLgJ2weh5ui4KAKwFx9P1cDw/DjOv591nPP/cPzvTMHzHECm0AmcvxzLMCxzBdIPXasH1gusHwQlskK/XNBVQ8DYMQz9NxwvCMxwjDpyw4idzQvdMKIzMl17OsmLPejgIzJiwIzRBe0IjjeJXFjBRXc9UBuHI+XCJMQCkvZlWo39wKU783z/NSewAwC5I3TdX2419u1UlTX1I18EO0sJ5PbajuIfIyfzg3CC0bCzyx0hSRybcdmMYwUTzrXjDlLSzwl0/CC3I3chMzbdEBC9yrPCjM53iutl13Bd0ucw1QuslU/OC4SAr87imJLXLErCzzCxihsRILJisr8gi8uSucjLnbicJKjMHzPc81SAA=", "134578629625439781879612453496381275213745896758926314567893142942167538381254967" ],
-
-        // "Sandwich Sudoku" by Cracking the Cryptic https://www.youtube.com/watch?v=2DN32fY63JM (Sandwich)
-        [ "Sandwich Sudoku", "N4IgzglgXgpiBcBOANCA5gJwgEwQbT2AF9ljSSzKLryBdZQmq8l54+x1p7rjtn/nQaDQANwCGAGwCuceAEZUaCKJgA7BABcMsgdz56uR9sMMjqB42YumrdqrXrhxa7AHcIAYwAWYaQFt8UE8YSUkEEAAlAAYAYXkQVAkZORAADhAKEBCwiJjYgCZEkGTZCIKAZkzSbNDw+Ci4qqSpMob5ADZq4Lq8uIAWYtLU+QBWbtrchvzxlpTyqqyc+sbYrrm2kHlFmuW+2IB2IdbUiuiJvem4jI3UgqOl3qvYxGP5hp2eqaj5WPPbiKdC5PKIFP5vTYPXYgyIVcEAj7A76RfrwkonQGDR7I0Zo4aAhLYlaRDp4jENAqE6HIg5k95bV5EvJpOmbCqfSbExCsu6ZWhEIA=", "859274316317956248462813957523749861974168523681325479295681734148537692736492185" ],
-
-        // "MiniMax Sandwich" by Lisztes (Disjoint, Sandwich, Minimum/Maximum)
-        [ "MiniMax Sandwich", "N4IgzglgXgpiBcBOANCALhNAbO8QFkIA7CfAQwA8ACAZTKIBMB3CAYwAsRUyBXNdgPYAnBCAAyEMFDQwwXEEJ44wMNKIBywgLZkstHgwEBrHlUXKqZAA5WsATwB0VAKJkOZgU2RVWArDy0ib3oGKgBmCjCqACMBal8iNDJiMCoYN3YqIgDomCEqADMhAS0qAEYqNAEqRDSKN2w7KgEiVhgHAB0iLoARSQArAWI0fUMTMyVZSxt7JwBhGCwsVP4yEesrdPziSvYYKjAyLX2rAUgMFrNFtYgAN32q3ZgIfIYYAt4sEaEYAHMIFqpLQ8MAjIgCEYJJI7fj7Q7HLI5PKdbpEOiMFjuGgGYymcxTDazKgAFT2iK0uSEqQEfEgbyeVF+QggoTAgiYDLAAWaBQZDAg/zQqUOGLYe1CuTQTBgMCI5UsjBqVBh7DWHg5wh8fgCRBRXQA4j8mm0lqkWPxLEJikxUh9WMRfs0+EwyEJQsDQVrEsk5dkKXlUkz0jJ8qs5bo9MJ+AJfi0I00yAx+m5ZZDFss9URDTBjemzZhMq7rba3A7lUQXW6qB7IS1ob6kVSqMoVqrw0tmkJo7GiPHLEmU4kfHmUfImSyEABtSfAAC+yDnC/ni5Xy7XS4AusgZ+vV0v93u51udwfd2fT8fD+er5vtzf72fL9fnxe7y+H7eTx+H0/T3+f1uID8mAgzDEyNJWHI8BoIoMCoCKzBilyWhTqAJpYKIABKAAMcwABzyLcug8LgIBlARy4gOhWG4QA7IRxGkQATPRlHUXgmEAKxzNhDH+MxvFsemWFMTxfEkaITEAGwgEJSw0XMnHiaRFGAVoxAQMCKHwDOVHCRxolMbJC56fJBn4cZaH6SAmF4XMRlyRhHF2RRJnsTZ3FKbOamUJpASoaZTkefZlmBVhdleW51lcRZjkiYpoXuTFiCyRus5AA==", "374526198956781324182349765719465832463218579528937416247653981835192647691874253" ],
-
-        // "Peak Sudoku" by Rangsk (4x4, Little Killer, V)
-        [ "Peak Sudoku", "N4IgzglgXgpiBcAWANCALhNAbO8QAUYBDAawAIBlAVwBMB7EqkVIqtACzoCcEQAlIgDsA5mBLMQXKjjAw0vACrsIYMirIcYamsSyVaDKgDoyATTpUyAWyIBPMoLpoyWCCS2ZkZAEZsNy1XUAd3YiZwAHYnJIrgAzbhtBAGMtLDoGVVd3IwAdQTyKNCEaIi4aMgA1eDIAEQhhTFVZcNKwmHLveyJKsjAqKw06MgBWEwA5JzIiLD0K1VKtBoA3GEFc/MFC4tLygBlMbC0AaQgZmC5quoa0ebSRKbJwughBNHayGggiYTpBad7+oN/FoklgqFpBDAAB7ONBDTRTLhcOhBExXRpkJJCMhcGCRMJTO7CB6fb6/aZGCTCLgQGgIADa9OAAF9kCy2ayWQBdZBMzn8jk8vkckXc3nsiX8rk8kCuNCHEinHBcPpWBmgFIzXh8AAMAGFhhJNVgwAz+ABGPWICR8ABMeoAzDaHXrbTbEHrzSAZZ9cUkML9eDVdhIltNwbxzdbOSBjdr9TqjTAZqb4PSLZ6bfa3ag+C6nbmPdafRA/QHBEG+KHw7gQAA2EAxuN4PiWxOoY2p9N2zO5l05/gep0lssQQN4GpV1BhsG1gCcjZlUKW6tjyZNZtbrptlq9MpnEbwFUXzKAA=", "1423324123144132" ],
-
-        // "6x6 Extreme Killer" by Leyrann (6x6, Killer, Minimum, Maximum)
-        [ "6x6 Extreme Killer", "N4IgzglgXgpiBcA2ANCALhNAbO8SIA9EACAUQLQCcYBbGYgaQix0pFQEMBXNACwHs2eADIwAnpQ4A7KexCUuOMDDQIQAWgAiMAGbcsaYmC4ATfgGsuxBUuIcADvaxj4xAJJTiMAG4xKY634Ad2RiAGN+LC4aT2kTYgAjfgJQjhZiEwgAc0wwYh1KfhpiAEZiNH5iEl4OX3LKh3sYDkovAg4w7AD+KTCYADoAHSl1JhY/I1MLKxsYPMbnV01s3OIIWPCOLPoauorJ4q57evLeeilohIn10/oK45wdQwjKKQn+HVvN7eIACiCzp4cr4pABKfrEZY5NB5GgcAJSfiGahNDiGG4cb4DYbqACy6wgNGiAHo4QRCdFrIo5nZHItiABBDIrdEbMAARy4LXoQUwvDslEKQTy9n46wwUiyxH4PCCLXibxgJjy+yuxCwLW2rT40js6T49Ey0PmhS4UnimFSzOhazZnO5xF5fC+LSFIrFUglUvWcsoCpgSpVlTVYDh421NVi+rO1tWLRl5rWaH6cl42V4WHTaAAwj0dJnOmAEHosMpUFlKBATAgANo14AAX2QjebTZb7YbAF1kPW233WwPG93e4P+x3hx3R6OJ2PZ62Z1PJ0PuyBzMxWGEtrh6yA+iwi/AayAAEolbMlOTHgBM58vAGZb6hjw+ryAV940lxcCASgAOEBtruMD7rWJ4ACyPuB2avu+n7fv+gF7qWoGntmYGXmeACsb6oB+UTfthiHAchh4njer5Pjed73tm1FPhB1GdkRIGkcemFoZeiAcbB+FqIRzZASxR5sdBl7sXRJ5cYxuFwWoJQXl2qA0ASRI0LWoBIWoImESuZIUmph4acRWk3ogAFMUAA", "615234423516351642264351136425542163" ],
-
-        // "Eddies" by Qodec (Arrow including 1-cell Arrows), Even/Odd)
-        [ "Eddies", "N4IgzglgXgpiBcBOANCALhNAbO8QFEATQiGMEVAQwFc0ALAewCcEQBFBwmAYwpCeo4wMNKwByzALaUsAAjDVCDANbVZAobMoAHbVgCeAOgA6AOzMBBJkwYB3MPFkARCAHNMYLVganXW01rWdrIQAfQwsq5MEISyktRgaPLUkrJoDGl0ESTuSaEhaJ7cEEzcOIbObh5xlPrqMNowlEkyPn6UAZRBtibmpgDyxAD0MABuMKaOAMIwWFietph0/rIM2pQAjtQRUTB1xaU4cQlJAEYRnIQVM3MLSytrm9uRTHvyW10R8Ymy57JjE16fCiMQQAG0wcAAL7IaGwmFwxEI5HwgC6yEhKKR8Jx2Oh6MxuKxxKJBLxJPJaIxlJpxLJFIZpOpjNpVMJrNp9KJ3M56JAl3BoG4sywrAASgAWKYSkAIkDCubiqUANllsPlIvFyqmqrlCtFeDF2plUL5ANMgo1isNAA4pja1ULNYaAEz2x1Wg0gMVul0e/Xiu1+01UbqWrChMjgsHegDMUwArHwfYnkwBGVOovn68jwGNi+NJ1FyiOmKN5/MJqax5NVv2oMVVtMgLOoHPg71VmvF9Wl8sQztTADstfdDariBb2ZFucrw5bJcjs/zQ9TDbtSYbiEz09uHbFq6Li7Ly+9q8n66mF+92+vYu3DtbntnZ6vC97S+jr+bl5/N6m9bena3a7vM+6rs2PagH2p4FlMf4pghGZ+k+7Z5nG8HvtBn4VhhDoNm6I4Nhmj6gS+cGPse/b5vGNYNvGMoNlKm6DkWGIYXR3puox3oZjKqEzvutFYSAMFfkaAHJquIFtoJ6ESShppQkAA==", "526419837148375269397286154654921378279834615831567492783192546462753981915648723" ],
-
-        // "Orbit" by Qodec (Arrow, Little Killer, Even/Odd)
-        [ "Orbit", "N4IgzglgXgpiBcBOANCALhNAbO8QHkAnAI0xFQEMBXNACwHtCEQBFegExgGNyRCqcYGGmYARCAHNMYAAQUs9AHYS5iuYUL0A7jIhq6MGRMIR2MgLZUwaGWCrmZaeo9qH2kzLrXSZXCIS4cADoZcSk0WXMKAE8ZQhgABxgKG3klFQo1Cg1tIIAdRQKwnzTlGXcKCSV5WT13LhSYM2JY7M0tWXoaSE4XQ2NTCysbOwcnPqMIADcYNUV7YhhCORs6FPV2kOKIixi4xOTUhTKKcohK6qx8wsUAYRgsLFktTFo5I3jYvwCcIesZRYyDjsEL3R7PV7vYwwWJgACOVGyhks/0BMBmiiCvAG7AQAG08aAEtlMNFmABRDEgAC+yGAtPpdIZzKZrKJJLQZLw+HYuOpAF1kISWYzRSLxYLhWzxdLpZKxbKFUqBULlYqZfT5RrtXLVTq1WKterjYbVSBiSZOcweXyTfrzRyuSBKbMafzBSAsJhsDAANYQR5LUb40BcB5YZgAJQAjAAGW4Adl4YfB+JAkcQtwAHLxI1nbogQB73PEuBglMwAKqR3hTeRUXAgHMMkApiN4SMAZluceT4bAacjACYC7no9mi6gS9xy4oqwAZWv1xtJlttqPxzt91PwPHp8dD3Mj6OTkDTssQCt4USL1B1rAN5gANhpdNb4ajCduse3T0H+ZPVAM1uQ9i38GdLzna8azvZdmELNcPw7eMk1QNsB13fdbhfICRwAVlzbsABZcyI24tyAvCQNzJ8e1Pc9ZzEW8QHvR88E7Zs33XDsv17ND+0HWjC0oicgLI1D027HD03wsdbhIsDS0YvBK2Y1jGyI1cuKQ/dN1/DC92AkigPzAigK/aTI1oiTIyonMxNHRSIKvEBqyXB8NMPRDHijbsf34ndDLIwD0yow8gNoij0y/Yz01M3NMxfJyLxc0QYJYuC8CIrcVRANptBDT09BgAzDO7GyR0s8czJk+Siw9dDB3KosWy9RQSvxMryNI6iRJCqzqPdAK/0wrtuv5VritK6LupMuqgMzGq82w+rhoMmatwmt82o63dDK/GzaPs0LRwcnMhvfQKZqTLbQB26bbMTHqkoagTRqom7Jvah7uyWsiFNeq6xoI26iu+zqTqigaAbWwcqM2r7doJGaltol7YdGr8QYFakgA", "654817329189263475237549681925471836473658192816392547368725914592184763741936258" ],
-
-        // "159" by zetamath (Renban, Kropki no negative constraint)
-        [ "159", "N4IgzglgXgpiBcBOANCALhNAbO8QEYBWREVAQwFc0ALAewCcERY0yBbMm0keinMGGiYA5BhywACXvwkAzBhLAUAJrQDWFZFJgA7AEZkdWw8olr6tAA5qIEspctYAngDpuAc3oRlCANq/QdwgAN10ABV0AYwgsAFkyejUwBB0+LABfZECQ8KiY+MTk+FSsDKyQINCdCJ1ouISklLTM7KqauoLG4ubyytza/IaikrLW/o6hptKWipzqvPrCqdHZtoXO4Z6x+YHFrpH0gF1kANXxwaXu6d659ov9rbOdicuDm7XdjeWZvuf7zeu2zuewBK1+wK+VzBt3WkyhPxhnzhB2Op3BsNej3RSMxgKeEORWMRLweeOxJNBCI+FO+73OINpQIxpOh1P+31RTJxLKp9Mhby5NPhdL+DOFgvZ4vxzMpIoJuNZfMJZOJkpRJwlYoF0u5ss1/KJbK1hqVCt5ooNKqNlsVFuVtvlPM5OqF2vJapNdrNcpljJdHqtpp5Pt1fvdxsDXqdGv9EYdvql4Zt5sdetjyZDrs9qbDqrjKYT6rReYz+vtBdDiZL5czAfjlbd1e9Zeb6fLzqTNZbwe7ac7rf7PbbA6bQ8HfdHlMOxx4ugMOj8oCwEB0MCK/hAACV8ABhABM3G3O4AzIfdwAWM87wggaczZer9e+Le7gBsV4A7FeABxXkh38oHzXPxn03Pcd1/VAwJ3EgoOPGDD3PBCAKXFdgPgDdN3gr84IgxC8Kgwg8JQkAgKfLdXx3HCKJ3d8oI/WjD2/RiSLIkCt0QRioM46jN04yCOOQw57zQ8i+P3Q9ONPVjRPYzdmIPKDmOk4TANkjDQM4/AmJ3bT6N0w9KO0mTHzkhjFJoizN0o09CJPW9VNQ0yNK3Ii9NciSoKQqz4IPEz0Mw3d3Og4L4OCpDjMc0j1Mw8CrPA2yt3gxLNyQlSROc2Kd0vKDwJvXKuK3cCv38sT4LorckIqzciPfUq5Pg/LKuvQ8iKa6yWrvGdlAgWRZBgegolwU5IhgUp1w82CPN/YSZ3oTgIFoRcQFG8a/C3BjgvM28ZlWrAJvkqjJKO2bUCA5a2Jco9gvA0KDK8gzp1QWgqCAncmAAYgAIQABl+37uAAd28Lh4B+lw90IDKAtAozD02nTgq0hzntetD3rwb6/uxoGQeoBBwch6GxLc1rPOanyJKekAXuwdHPv+nHUGB5RQcJqG1My0Ddys3cUovK8b2p2m3oZ7GAeZvGCYhjmnJhl9CqPXjdwEo9/xnEX6cxxmJZAFm2Zl4m5Liw8EsPZL8JU1G6dXDGQCxxncdZ/GwcNzn5Zq+yoJswzyc3bbhbR22xcdyXnelon3bEhSdKtmmg5gO2HaZvWpddyO5bEzirKklH45txOQ5T/WXfZo2rvAnKipagrquKvPNeD7XxZ+p2DYz6Kuer1XwKmrCEIe9XrdF5vQ9T8P09lzuPew82COa1WiJmjWE6TnXW7D9up8uzDGvw9q2t9oWV4LteW7b0u3czhrFaqsm6pPkf7fXi+I+3mLYaO73FYY6rmIf4eWtn7n03pfDuO9NKKx4sdVWnEh75yfsnXWJc37l0Cn7PmV4q5HmPoApu9sACi+Afo/QAGKkNfq7c8qBZAWDYJuQw7gwBqAAMq0CwKERg8A0C8BgGg7mitdzK3nmrBuq9PpEJIeQyh4NqEgFobQehjDmFsI4QNBAPCKB8KjsbERvc559yQvAxuhdMaSLIRQ0B0s5EKKUToJhrD2GcI0bw/hSUv7uNVkhRexFH5AI+uY6RViqE0LoQw+xKinHqO4a4nRV1KK8UotVX+OkAEIP8YEyx48DY2LCcoxxaiuGaO0dfK6nFqrQO4iIuBYjT4SOIRYmRLhcmKPCQ41RziYlaLceJHO9lA51LMQ0oJ2TL4tLse0qJRTYmlMwjHJS/S/H4ICcMrJKCQnyLyREgpnTik9ORgsra90aKRTwaYwhqymnjLaZEwpLjulxMwttb+VkfZ2TjiYpOmSrmhNafkjp0S9mPNAqTOyVlvJzz8ks85KypFrLTrI35Ezbm7JmdPMSQVTbHP7uFR60KvmXOCYizZfztkAumQ82ZoETYFRShbB6HzxFDLhT8klyKdmArRRA6u2C8pYrridfF9SWVEuaUim5HKKUlPRTfaqd87JpM+cKxporrn/Kmfc6V3L+7tSQgfGuNFcHpOWd81V4r1V3K6Xw7qEAwBkD0DgZQWBaBBEiH4GcxTIgmG8JwNcVgMC0B0OuYSQA===", "153428796298675431467931582386152974972843165514769823639517248745286319821394657" ],
-
-        // "Alien" by Lisztes (Whispers, Thermo)
-        [ "Alien", "N4IgzglgXgpiBcBOANCALhNAbO8QEEsIYA7EVAQwFc0ALAewCcEQAZCMKNGMckRqjjAw0LAJIkABGAAOFAMYxJJepPokl8ilNowKjSQE96VAHTnJAd1ocZMRqYA6JZwDkmAWwpZJAZSoAJvQA1lSSAkKSFDIyWIamkgCiCrTh9JbIkvL0WFQeUtoBkgDMAB7FkgBG9KVZ6mgUECRgknryqSR5lfaSAGaM9B6SAIySaKqIraUK2IZqJIpOLiQA4vZeUgDqNrI9/kGh4YI8UTFxCQAqlqqKWFgt2SQa8txFlXMUkkQakgAUMJhdAYAOaMGBzJiSUEwUgASkkHioYDQkloFAAbkpPgEIL1evZSIo1L0+hBMWoDB4mEpumhLDCpHQAQYccDMGAls4LrpJE0YABHKjeTBzSDA5pVET00hja5ZGB3FpgBiWKw2drzTT1RoSplfdL2AD0NmBQMkrMwpj4oIgAQQAG17aA2ZiSAAFQkQLAAWX0wV48E6dwAvshnWTSB6Fl7fYx/Qgg1hQ+HXVH5DG/QHE8mQC7I56fZmE4Ik2HcxH3QXY/HAyWc3nK9HC3Gs3Wyw20xmW8WQ+2K53mzXs33U1Wi7WQwBdZBO8ujpvV1u9lP5hfj4crxvpwdL0ubgeLnt7uer7eHifHjtj7sX+v969Dtv7h+7u/zs/ruvT2dXtc3jcnluXaPsugEHp+oG/h+/5PiA6LeFQuDDKgDYIGgAgwCh95/iBl7YdBuFvqewGviOxE7keRFARRt7fs+OGkfRBGMWBL6UWR1HngBUEkexTG8beHHgTBkH4QJ3FiTR2Z0axDF8bJzHyfBuS4CggFoRhWHvuJsE8VJumSVxBnafpoHKYhCAAOxaaQGmITZnEQXhJlGaJLlOcGMl6a5znkT5VHCYRQlsYJ/Gmb5jkiRFgUsd5HnBXJtEzmF/kJYpoUKTpbl+fFoDmapDl2ZhmXhQFIUSe5UVlYlFU5VVXmGblJWpSlTVxVVaVZdF5XGXVQWtR1A2EQ1lX9c1bWNYN41Te1Y2zbFk1zYtC2ja+k7TugQJUh4Ij2A6oDfDwDr2iAABKABMADCxR8KdwzXSA62eag1i2PYAazodH0nXdl3DLd93nY9k45l9x1nfdN2oL9AAswOg3y30Q5dABsAOXZZ8NlmD8COsjAAc6OIFjB2I+Dp0w39t3FFT0NXUD0M01DZ2UzdT3Y2TuM/VdmOMxjt2U7zLOXYT0OU8T7OkxoSOnZZl0M2dcv/dD+O02dqtA5LIA43jp2q8rZ2IGrp1G5rIMc9L5Oq3D0NG3DWs6z9qto7bqMk9rnO65TACst3e5dvvQyjAfu47hv8yrEeK1Hesi7dRvE5HifRxLIMbdwpSiLjoC3PcDpnVdzO/WzqD5SwAB8fC9PUl0sAAxAADE3zd8JAsAIA3piWd7lAkMCOAIIgDfPSAOJgBQlQ4AEWD0Gy8gOunGFaCQOIBBQ3BgPQMgYOoH0bYd+0e5bXPIwbv1m6gJjYHytd4HXKMN5dDcP3wli2nQHemMUqAcK4MCWJdXe6EdRZ3QohBGx9daQ3RvbDaV9Dq3xAPfR+z8G6v3frQT+38QC/3/oA5owCmigIwhAo6J9fou2Rpjdal8aAIPrg/J+L8XoYKwT/MAf8AFAMYCAoqpCZb3VFsjVOtDr4aEQcgphaCWEBA/vATu2DcFcIITwohfCLZkK9sbGmZ96bUwemLB6NCQDwJvgwlBzCQBv1kZg+RX92GcPwciVRJBiHgI0TLHm+ihYUxjpTIRviREmLoWYu+jDUHoJsWwnBHC8HcN4fAMBMB+HkzlgrWWxt9a3Q1sDUR9CwkWOkVY1hdjFGxOUc4hJSSUnkKya7M+ptcnBLETACR4TLHWLkQohxcSVFVJIR4q2l0bbh1gXk0JSD2lFM6bY7pMTHHxLUYkgZUtNFOzdq7NGxjTHiPMVIyJXT7HzN6ZUpZ1TBnkJ9n7EOQcQ7bJCbsgp+yZGHLKQsvpZyVlHzWeHHxqsfFyz+XHV2ydY6grlkEnZrS9kRJebMo5SinGENcXwkGQA==", "497258316512936478836714925381675294659423781724189563163592847945867132278341659" ],
-    ];
-
-    const otherBoards = [
-        // "A Kind of Magic" by Philip Newman and ryokousha (2-cell Thermos)
-        [ "A Kind of Magic", "N4IgzglgXgpiBcBOANCALhNAbO8QEEACAaQgDsATQgewDNCBZAQwHMIBjEVJgVzQAtqAJwQgACvwhYIAB0IA5GAHcAtkzKF1VIQE9qAa2o8w/JlxBCeOMDDSj5wtVkIBlHhQM9Cl65pkysHQA6QgAdMgARCDY0MBoNARghFWoVWyS4lWM0QnJ2IRgmG0JaIVTCRMIAIysqiuoK/hgK2SDzFiEICgQAbR7QNgA3GDIxEfYpZiF9MAQyKywAX2QBiGHR8cmmadn4eawllZAhkbGyCawpmbmF5dX1s4ur3f3D+9PNy+3rvdujk425y2OxuBzuxzWHyBXxBvzB/0hgKe3xef3eSOBP1eiwAush+hCHp9nqC3oSocjYdiEUToSS4WSAY9Maj4ejmTCsWjyRjOazGYiOfTqeziSjSeCmWKqbc8QSpXTxQzJYLpVy2TyhUqRZq1fyVbTKeqBYaWRKaRSzcqLbzhdyFUb9XLRYqZRqHVadR6+eaXY7fbrXcaDZafda/Z77aqg/qbVq3UtnYH/eHk5H3dGU17M+mTaG7RnTWHs0WC3nbdqo6XK2Ck96yyGKwnG/Hg3G9QH6zXy63YxHi1X892Wx3lXWcwPC0Pm+2Y52Jw3Z1nB022/3F+vh0vc7j8ZuZ/u12nJz3RyXp0euwfjxub1vD0693fr1fLwv78+39WX++f9+vxefafk6eLoE0ySpOkIjwAS0hkDAux9CAABKACMADCAAs5jIQATFhIA4ji4JwQhvQ9ChiAEagyEABwEURJHkGRMEUchADs6EAGw4Zx7GEcRRykYhbFUfxNH0TxjFCcxIkoRhuE4fhADMAlMfBcnIcp6GKTR+GoWpMkaeRKGYTpOEAKzoQZ0mgMJJnIVx5k0VZqm2SA9msShnG6Sh9E2YJdmyQ5VG+XR6FuYFHnBV5WncUp6EWYZQXGbFTk8S5iXJdFqVIchVEZX5WXuZ5eUYbRCX8SVMV5dpFV6ehiDZaVbFmfVKFWVVUUtShTntchVlNdVuVsZx/X0V16ksXlVHjY1amgRQEBgEwVQ4BQWDUGwnAwSA7DUGQaBCEwS3sBgB2zKBR08DA7BaF0TBoAh1AyOdZCIXt1CbQU3TEUAA==", "953218746816374529274956381621749835385162497749835162132687954497523618568491273" ],
-
-        // "Rusted Wings" by RSP (Little killer)
-        [ "Rusted Wings", "N4IgzglgXgpiBcBOANCALhNAbO8QCUBXMNGAEwAIB1CAOwHMwRUBDQtACwHsAnBAgMoAFZiB6EcYGGn4BhLCzCQAxhQGEyXANaEK4yRRYAHI1gCeAOgA6tAII8eXAO5gKdMhGUtSFTjApghAC2FFwAZr4c/h70mK6c3oYmMCw8brSR0RAs9Fy0LFiZZhRGXHRovs6pZGAWFAAiELForkEsxTwwRikVBXn0mVIUHjl5BbWi9DwQZAgA2nPAAL7Iy6sra5sb2+sAusiLO1vrJ8fL+4enR9dXF2c393sHjy/Xdw8ft8+fr0+Xv693ldgYD9iAsJhsDAtBAsDgeIEgvNQMoYHD+PgAAyyABsolRcKY8DmBAAjLIAKyifAAJlkABZqQBmWRM6n02Q06kU2SkkBgjydZQYPL8eoAGVEADcCoRcCB6ZiQBsQASsBjSdiuag1USSfhEKzqQAOBnUgDslOpONx3Nk5vZsmNzNkiH5qEFMGFEFFeAAqvhpbL5aS2Sq1RibUqdWisHqCJa+ah8KbtQRDWyBRAhSLaGLA6gZVg5fxSVTw7GMTzNfjY/H8By3cmWc7k3SHcnyXiszmfXn/ZLC8H+DTnRX0Xh8DaazHCfMCDymwQOa2CCyOwQ6XjO1ae17c/w/YOQEWS3ga+P1ZO6dHVXX5/gWUnl5y7WzkzbGcnLVTk6bt+m9ruiAnrer6ID1AWJ7DngFJ8peGLYquuoPuSG60razZWsmHJfguRofq+368sBoEHngEpBsW8r0mGqx3hOZLYnhKHEoBv4EP+FpAYRq74IupHZvufaHlBp7yjS5a7EsQA==", "182357694635941827749286153294673518817495362563812749976528431458139276321764985" ],
-
-        // "Last Night's Pizza" by Degustaf (Irregular, 6x6, Little Killer
-        [ "Last Night's Pizza", "N4IgzglgXgpiBcA2ANCALhNAbO8QBkBDMNAAgDkIBzACzQHIxSAFaKQkVQgVzRoHsATghAARGFW4lCAM04hB3HGBhoRzLIQDGMUn10ATapiYBGQMgEiUvwB2O0jG01SEGw4BuMQQE9Sg/gDuyKRa/FjcALY2wYQ2Bn4SELYAdAA6NgDC4TBM/LyQBrr6pFSCEPFgAgF6NLpgkdYypIRYWDWGxmhMLbZU7RCCCWAADjBaGJ6kRoRUti1gyfKl5QgA2qugVBCeNswwdhBYALKEggDWYAg2SlgAvsib2/t7B8enF1c39487L1qHJ3Ol3g11a3wUiVsCAADKgtr99v83kDPmCHiB4c9EQD3sDQXd0ZjdtjkR8QV8ALrIDYQrZQ+AAJjhT2Jr0BZPx4PcLW4uAAzMydgg0IoYIKsWzcaiCT8JUj2XivujBJCbAgBRiWX8cSjyWjQCq6Wr4BqidrSYr9ZqEZLdZyqTSzSSFdLwU7bRylbLWfKpXqZda5TrPVbDUljaZxT7g5aA2H6ZHA9GLa6Hd7zS7/eD48aACxRjN+zmErXOotepOFu0VnMIRPu33V0OqhAAVgLZabdzTlc7IYDDZjrpLNsb/ezLZNHY9sYnRvV07Hs5HQZTWZ7g7XxfTfeXBsn7d7M+HO+PWZXycz26PS9TVJAWEw2BgZ0OOEE9Qia1AOlaIgAStCGR8vIv5YMCqwgP+pgZLm8j/gyGStvBfIZIgID3kYKrjOGIiiP+8jctkIimAA7CA4JgQBrYZORqBgRBUG5mhKFIfBiFwag0HARhqBYWMGD0iAACq+CETyuAgMhlEwH+eD/qh0KgbJ4FrFBiGmPBMEMrxID8ThQnCQRqBEbyIgABwUZhEBgIQABGOAGFg/BbFoakyDZtSXKgASuFQlz3iKvJaLERgGIQaA5PwwyCTYjGhM5KoGPIzmuS0GG3EAA=", "641523432165523416156342364251215634" ],
-    ];
-
     const timeout = 300_000;
     test.each(sudokuSolverBoards.concat(otherBoards))('"%s"', async (_name, board64, solnStr) => {
         const board = fPuzzles.parseFpuzzles(board64, (type, value) => ({ type, value } as any));
@@ -0,0 +1,77 @@
+import { CancellationToken, generate } from "../dist/solver-sat";
+import { boardRepr } from "@sudoku-studio/board-utils";
+import { schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+async function generateBoard(board: schema.Board, seed: number): Promise<schema.Board> {
+    const token: CancellationToken = {};
+    setTimeout(() => token.cancelled = true, timeout);
+
+    let generated: null | schema.Board = null;
+    const success = await generate(board, result => generated = result, { seed }, token);
+    expect(success).toBeTruthy();
+    expect(generated).not.toBeNull();
+    return generated!;
+}
+
+const timeout = 300_000;
+
+describe('Generate', () => {
+    test('anti-knight', async () => {
+        const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+        board.elements['20'] = { type: 'knight', value: true } as any;
+
+        const generated = await generateBoard(board, 1234);
+        expect(await getSolutions(generated)).toHaveLength(1);
+        expect(Object.keys(generated.elements['10'].value as object).length).toBeGreaterThan(0);
+
+        // Reproducible.
+        expect(await generateBoard(board, 1234)).toEqual(generated);
+        // Input is unchanged.
+        expect(board.elements['10'].value).toEqual({});
+    }, timeout + 1000);
+
+    test('missing clues', async () => {
+        const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+        board.elements['20'] = {
+            type: 'killer',
+            value: {
+                a: { cells: { 0: true, 1: true, 9: true } },
+                b: { cells: { 40: true, 41: true } },
+            },
+        } as any;
+        board.elements['21'] = { type: 'sandwich', value: { 2: true } } as any;
+        board.elements['22'] = { type: 'littleKiller', value: { 0: true } } as any;
+
+        const generated = await generateBoard(board, 42);
+        const [ soln ] = await getSolutions(generated);
+        expect(await getSolutions(generated)).toHaveLength(1);
+
+        const cages = generated.elements['20'].value as any;
+        expect(cages.a.sum).toEqual(soln[0]! + soln[1]! + soln[9]!);
+        expect(cages.b.sum).toEqual(soln[40]! + soln[41]!);
+        for (const sum of Object.values(generated.elements['21'].value as object)) {
+            expect(typeof sum).toEqual('number');
+        }
+        expect(typeof (generated.elements['22'].value as any)[0]).toEqual('number');
+    }, timeout + 1000);
+
+    test('missing operator cage clues', async () => {
+        const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+        board.elements['20'] = {
+            type: 'killer',
+            value: {
+                a: { op: '*', cells: { 0: true, 1: true, 9: true } },
+                b: { op: '-', cells: { 40: true, 41: true } },
+            },
+        } as any;
+
+        const generated = await generateBoard(board, 7);
+        const [ soln ] = await getSolutions(generated);
+        expect(await getSolutions(generated)).toHaveLength(1);
+
+        const cages = generated.elements['20'].value as any;
+        expect(cages.a.sum).toEqual(soln[0]! * soln[1]! * soln[9]!);
+        expect(cages.b.sum).toEqual(Math.abs(soln[40]! - soln[41]!));
+    }, timeout + 1000);
+});
@@ -0,0 +1,32 @@
+import { solve } from "../dist/solver-sat";
+import type { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+
+/** Cells of each 2x2 box in a 4x4 grid. */
+export const BOXES_4X4 = [ [ 0, 1, 4, 5 ], [ 2, 3, 6, 7 ], [ 8, 9, 12, 13 ], [ 10, 11, 14, 15 ] ];
+
+/**
+ * Creates a 4x4 board with 2x2 boxes, plus ELEMENTS.
+ */
+export function create4x4Board(...elements: schema.Element[]): schema.Board {
+    return {
+        grid: { width: 4, height: 4 },
+        meta: {},
+        elements: {
+            '1': { type: 'grid', order: 0 },
+            '2': { type: 'gridRegion', order: 0, value: BOXES_4X4.map(cells => Object.fromEntries(cells.map(idx => [ idx, true ]))) },
+            ...Object.fromEntries(elements.map((element, i) => [ 3 + i, element ])),
+        },
+    };
+}
+
+/**
+ * Solves BOARD, returning up to MAX_SOLUTIONS solutions.
+ */
+export async function getSolutions(board: schema.Board, maxSolutions: number = 2): Promise<IdxMap<Geometry.CELL, number>[]> {
+    const solns: IdxMap<Geometry.CELL, number>[] = [];
+    const success = await solve(board, maxSolutions, soln => {
+        if (null != soln) solns.push(soln);
+    });
+    expect(success).toBeTruthy();
+    return solns;
+}
@@ -0,0 +1,45 @@
+import { schema } from "@sudoku-studio/schema";
+import { create4x4Board, getSolutions } from "./helpers";
+
+function createBoard(type: schema.IndexElement['type'], cells: number[]): schema.Board {
+    return create4x4Board({ type, order: 0, value: Object.fromEntries(cells.map(idx => [ idx, true ])) } as schema.IndexElement);
+}
+
+describe('Index Cells', () => {
+    test('row index', async () => {
+        // Column 2 (r1c2, r2c2, r3c2, r4c2) gives the position of each row's 2.
+        const solns = await getSolutions(createBoard('rowIndex', [ 1, 5, 9, 13 ]), 100);
+        expect(solns.length).toBeGreaterThan(0);
+        for (const solution of solns) {
+            for (const y of [ 0, 1, 2, 3 ]) {
+                const digit = solution[4 * y + 1]!;
+                expect(solution[4 * y + digit - 1]).toBe(2);
+            }
+        }
+    });
+
+    test('column index', async () => {
+        // Row 1 (r1c1 to r1c4) gives the position of each column's 1.
+        const solns = await getSolutions(createBoard('colIndex', [ 0, 1, 2, 3 ]), 100);
+        expect(solns.length).toBeGreaterThan(0);
+        for (const solution of solns) {
+            for (const x of [ 0, 1, 2, 3 ]) {
+                const digit = solution[x]!;
+                expect(solution[4 * (digit - 1) + x]).toBe(1);
+            }
+        }
+    });
+
+    test('row number outside digits', async () => {
+        // 5x5 grid with digits 1-4, r1c5 would need to index the digit 5.
+        const board = createBoard('rowIndex', [ 4 ]);
+        board.grid = { width: 5, height: 5 };
+        board.meta = { digits: { min: 1, max: 4, blanks: true } };
+        delete board.elements['2'];
+        const solns = await getSolutions(board, 100);
+        expect(solns.length).toBeGreaterThan(0);
+        for (const solution of solns) {
+            expect(solution[4]).toBeUndefined();
+        }
+    }, 30_000);
+});
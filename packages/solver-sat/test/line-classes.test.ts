@@ -0,0 +1,39 @@
+import { schema } from "@sudoku-studio/schema";
+import { create4x4Board, getSolutions } from "./helpers";
+
+async function getLineDigits(type: schema.LineElement['type'], cells: number[]): Promise<number[][]> {
+    const solns = await getSolutions(create4x4Board({ type, order: 0, value: { a: cells } }), 1000);
+    expect(solns.length).toBeGreaterThan(0);
+    return solns.map(soln => cells.map(idx => soln[idx]!));
+}
+
+describe('Line Classes', () => {
+    // r1c1, r1c2, r2c2, r3c2, r3c3.
+    const cells = [ 0, 1, 5, 9, 10 ];
+
+    test('entropic', async () => {
+        // With digits 1 to 4: low is 1 and 2, middle is 3, high is 4.
+        const classOf = (digit: number) => Math.floor(3 * (digit - 1) / 4);
+        for (const digits of await getLineDigits('entropicLine', cells)) {
+            for (let i = 2; i < digits.length; i++) {
+                expect(digits.slice(i - 2, i + 1).map(classOf).sort()).toEqual([ 0, 1, 2 ]);
+            }
+        }
+    });
+
+    test('modular', async () => {
+        for (const digits of await getLineDigits('modularLine', cells)) {
+            for (let i = 2; i < digits.length; i++) {
+                expect(digits.slice(i - 2, i + 1).map(digit => digit % 3).sort()).toEqual([ 0, 1, 2 ]);
+            }
+        }
+    });
+
+    test('parity', async () => {
+        for (const digits of await getLineDigits('parityLine', cells)) {
+            for (let i = 1; i < digits.length; i++) {
+                expect((digits[i - 1] + digits[i]) % 2).toBe(1);
+            }
+        }
+    });
+});
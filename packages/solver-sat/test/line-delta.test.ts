@@ -0,0 +1,46 @@
+import { fPuzzles } from "@sudoku-studio/board-format";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { create4x4Board, getSolutions } from "./helpers";
+
+describe('Line Delta', () => {
+    test('whisper defaults to half the digits', async () => {
+        const solutions = await getSolutions(create4x4Board({ type: 'whisper', order: 0, value: { a: [ 0, 1 ] } }), 1000);
+        expect(solutions.some(solution => 2 === Math.abs(solution[0]! - solution[1]!))).toBeTruthy();
+        for (const solution of solutions) {
+            expect(Math.abs(solution[0]! - solution[1]!)).toBeGreaterThanOrEqual(2);
+        }
+    });
+
+    test('whisper with delta', async () => {
+        const solutions = await getSolutions(create4x4Board({ type: 'whisper', order: 0, value: { a: [ 0, 1 ] }, delta: 3 }), 1000);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            expect(Math.abs(solution[0]! - solution[1]!)).toBe(3);
+        }
+    });
+
+    test('lockout with delta', async () => {
+        // Circles in r1c1 and r1c3.
+        const value = { a: [ 0, 1, 2 ] };
+        const differences = (solutions: IdxMap<Geometry.CELL, number>[]) => solutions.map(solution => Math.abs(solution[0]! - solution[2]!));
+
+        expect(differences(await getSolutions(create4x4Board({ type: 'lockout', order: 0, value }), 1000))).toContain(1);
+
+        const solutions = await getSolutions(create4x4Board({ type: 'lockout', order: 0, value, delta: 2 }), 1000);
+        expect(solutions.length).toBeGreaterThan(0);
+        expect(Math.min(...differences(solutions))).toBe(2);
+    });
+
+    test('f-puzzles whisper values', () => {
+        // Whisper with value 3 on r1c1-r1c2, and one without a value on r2c1-r2c2.
+        const board = fPuzzles.parseFpuzzles('N4IgzglgXgpiBcAWANCA5gJwgEwQbT2AF9ljSTiBdZQiu86285qms9uy6kAdwAsIYAA4wMYfKAA2EAHYxx8AiABKARgDCqkKjXqATCC6oAbgENJAVzjwQAZhAUQ0uQqXK9m7So8GuRSkRAA=',
+            (type, value) => ({ type, value } as any));
+
+        const whispers = Object.values(board.elements).filter(({ type }) => 'whisper' === type) as schema.LineElement[];
+        // Element ids are random, so sort by the first cell.
+        expect(whispers.map(({ value, delta }) => [ Object.values(value!), delta ]).sort(([ [ a ] ], [ [ b ] ]) => a[0] - b[0])).toEqual([
+            [ [ [ 0, 1 ] ], 3 ],
+            [ [ [ 4, 5 ] ], undefined ],
+        ]);
+    });
+});
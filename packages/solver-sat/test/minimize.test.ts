@@ -0,0 +1,57 @@
+import { CancellationToken, minimizeGivens } from "../dist/solver-sat";
+import { boardRepr } from "@sudoku-studio/board-utils";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+function createBoard(givensStr: string): schema.Board {
+    const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+    const givens: IdxMap<Geometry.CELL, number> = {};
+    [ ...givensStr ].forEach((c, i) => {
+        if ('.' !== c) givens[i] = +c;
+    });
+    board.elements['10'].value = givens;
+    return board;
+}
+
+describe('Minimize Givens', () => {
+    // https://en.wikipedia.org/wiki/Sudoku
+    const givensStr = '53..7....6..195....98....6.8...6...34..8.3..17...2...6.6....28....419..5....8..79';
+
+    const timeout = 300_000;
+    test.each([ [ 'asymmetric', false ], [ 'symmetric', true ] ])('%s', async (_name, symmetric) => {
+        const board = createBoard(givensStr);
+        const [ expectedSoln ] = await getSolutions(board);
+
+        const token: CancellationToken = {};
+        setTimeout(() => token.cancelled = true, timeout);
+
+        let givens: null | IdxMap<Geometry.CELL, number> = null;
+        let lastProgress = [ 0, 0 ];
+        const success = await minimizeGivens(board, result => givens = result, {
+            symmetric,
+            onProgress: (checked, total) => lastProgress = [ checked, total ],
+        }, token);
+        expect(success).toBeTruthy();
+        expect(givens).not.toBeNull();
+        expect(lastProgress[0]).toEqual(lastProgress[1]);
+
+        const numGivens = Object.keys(givens!).length;
+        expect(numGivens).toBeLessThan(Object.keys(board.elements['10'].value as object).length);
+
+        board.elements['10'].value = givens!;
+        expect(await getSolutions(board)).toEqual([ expectedSoln ]);
+
+        if (symmetric) {
+            for (const cellIdx of Object.keys(givens!)) {
+                expect(givens![80 - +cellIdx]).toBeDefined();
+            }
+        }
+    }, timeout + 1000);
+
+    test('not unique', async () => {
+        let givens: undefined | null | IdxMap<Geometry.CELL, number> = undefined;
+        const success = await minimizeGivens(createBoard('53..7....'), result => givens = result);
+        expect(success).toBeTruthy();
+        expect(givens).toBeNull();
+    });
+});
@@ -0,0 +1,42 @@
+import { solve } from "../dist/solver-sat";
+import { arrayObj2array, boardRepr, getDigitSet, getGridHouses, isCellActive, multiGridLayouts } from "@sudoku-studio/board-utils";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+
+function createBoard(layout: keyof typeof multiGridLayouts): schema.Board {
+    return boardRepr.createNewBoard((type, value) => ({ type, order: 0, value } as any), 3, 3, multiGridLayouts[layout]);
+}
+
+async function getSolution(board: schema.Board): Promise<IdxMap<Geometry.CELL, number>> {
+    const solns: IdxMap<Geometry.CELL, number>[] = [];
+    const success = await solve(board, 1, soln => {
+        if (null != soln) solns.push(soln);
+    });
+    expect(success).toBeTruthy();
+    expect(solns.length).toBe(1);
+    return solns[0];
+}
+
+describe('Multi-Grid Layouts', () => {
+    test.each([
+        [ 'Twodoku', 15, 17 ],
+        [ 'Butterfly', 12, 16 ],
+        [ 'Samurai', 21, 41 ],
+    ] as const)('%s', async (layout, size, numBoxes) => {
+        const board = createBoard(layout);
+        expect(board.grid).toMatchObject({ width: size, height: size });
+        expect(getDigitSet(board)).toEqual({ min: 1, max: 9, blanks: false });
+
+        const boxes = arrayObj2array((board.elements['2'] as schema.GridRegionElement).value!)
+            .map(box => Object.keys(box).map(Number));
+        expect(boxes.length).toBe(numBoxes);
+
+        const solution = await getSolution(board);
+        for (let cellIdx = 0; cellIdx < size * size; cellIdx++) {
+            const active = isCellActive([ cellIdx % size, Math.floor(cellIdx / size) ], board.grid);
+            expect(null != solution[cellIdx]).toBe(active);
+        }
+        for (const house of [ ...getGridHouses(board.grid), ...boxes ]) {
+            expect(house.map(idx => solution[idx]).sort()).toEqual([ 1, 2, 3, 4, 5, 6, 7, 8, 9 ]);
+        }
+    }, 60_000);
+});
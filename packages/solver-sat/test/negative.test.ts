@@ -0,0 +1,87 @@
+import { cellCoord2CellIdx, getOrthogonallyAdjacentPairs } from "@sudoku-studio/board-utils";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+function createBoard(element: schema.EdgeNumberElement): schema.Board {
+    return {
+        grid: { width: 4, height: 4 },
+        // More digits than cells per row, to leave room for the negative constraints.
+        meta: { digits: { min: 1, max: 6 } },
+        elements: {
+            '1': { type: 'grid', order: 0 },
+            '3': element,
+        },
+    };
+}
+
+function getAdjacentDigits(solution: IdxMap<Geometry.CELL, number>, board: schema.Board): [ number, number ][] {
+    return [ ...getOrthogonallyAdjacentPairs(board.grid) ].map(([ a, b ]) =>
+        [ solution[cellCoord2CellIdx(a, board.grid)]!, solution[cellCoord2CellIdx(b, board.grid)]! ]);
+}
+
+describe('Negative Constraints', () => {
+    test('difference', async () => {
+        const board = createBoard({ type: 'difference', order: 0, value: {}, negative: true });
+
+        const solutions = await getSolutions(board, 100);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            for (const [ a, b ] of getAdjacentDigits(solution, board)) {
+                expect(Math.abs(a - b)).not.toBe(1);
+            }
+        }
+    });
+
+    test('difference is not negative by default', async () => {
+        const board = createBoard({ type: 'difference', order: 0, value: {} });
+
+        const solutions = await getSolutions(board, 100);
+        expect(solutions.some(solution => getAdjacentDigits(solution, board).some(([ a, b ]) => 1 === Math.abs(a - b))))
+            .toBeTruthy();
+    });
+
+    test('only the default difference is excluded', async () => {
+        // Difference of 3 between r1c1 and r1c2.
+        const board = createBoard({ type: 'difference', order: 0, value: { 0: 3 }, negative: true });
+
+        const solutions = await getSolutions(board, 100);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            const [ first, ...rest ] = getAdjacentDigits(solution, board);
+            expect(Math.abs(first[0] - first[1])).toBe(3);
+            for (const [ a, b ] of rest) {
+                expect(Math.abs(a - b)).not.toBe(1);
+            }
+        }
+        // Unmarked edges may still have the given difference.
+        expect(solutions.some(solution => getAdjacentDigits(solution, board).slice(1).some(([ a, b ]) => 3 === Math.abs(a - b))))
+            .toBeTruthy();
+    });
+
+    test('ratio with a dot', async () => {
+        // Dot between r1c1 and r1c2.
+        const board = createBoard({ type: 'ratio', order: 0, value: { 0: true }, negative: true });
+
+        const solutions = await getSolutions(board, 100);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            const [ first, ...rest ] = getAdjacentDigits(solution, board);
+            expect(first[0] === 2 * first[1] || first[1] === 2 * first[0]).toBeTruthy();
+            for (const [ a, b ] of rest) {
+                expect(a === 2 * b || b === 2 * a).toBeFalsy();
+            }
+        }
+    });
+
+    test('xv', async () => {
+        const board = createBoard({ type: 'xv', order: 0, value: {}, negative: true });
+
+        const solutions = await getSolutions(board, 100);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            for (const [ a, b ] of getAdjacentDigits(solution, board)) {
+                expect(a + b).not.toBe(5);
+            }
+        }
+    });
+});
@@ -0,0 +1,44 @@
+import { fPuzzles } from "@sudoku-studio/board-format";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+describe('Pill Arrows', () => {
+    // 6x6 with a pill on r1c1-r1c2 pointing down column 2 to r5c2, and a circle on r6c6 pointing up to r4c6.
+    const board = fPuzzles.parseFpuzzles('N4IgzglgXgpiBcA2ANCA5gJwgEwQbT2AF9ljSSzKiBdZQih8p42+5xq1q99rj/8nx7cWtEAEMMGAPYB3fKADGMADYqw+EACUAjAGEATCFS69OkGJUQAdjA3wC2/UZMHDx7QGZ3JgCw/tAFZ3amoKEGU1ezxtRD1EC1QrW2iYrTiEk2DM7X8E0JoiIA==',
+        (type, value) => ({ type, value } as any));
+    const bodySum = (solution: IdxMap<Geometry.CELL, number>) => [ 7, 13, 19, 25 ].reduce((sum, idx) => sum + solution[idx]!, 0);
+
+    test('f-puzzles import', () => {
+        const arrows = Object.values(board.elements).filter(({ type }) => 'arrow' === type) as schema.ArrowElement[];
+        expect(arrows.length).toBe(1);
+        // Element ids are random, so sort by the first bulb cell.
+        const items = Object.values(arrows[0].value!).sort((a, b) => (a.bulb as number[])[0] - (b.bulb as number[])[0]);
+        expect(items.map(({ bulb, pill }) => [ bulb, pill ])).toEqual([
+            [ [ 0, 1 ], undefined ],
+            [ [ 35 ], undefined ],
+        ]);
+    });
+
+    test('bulb is read as a number by default', async () => {
+        const solutions = await getSolutions(board, 100);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            expect(10 * solution[0]! + solution[1]!).toBe(bodySum(solution));
+            expect(solution[35]).toBe(solution[29]! + solution[23]!);
+        }
+    });
+
+    test('bulb is summed when not a pill', async () => {
+        const summed: schema.Board = JSON.parse(JSON.stringify(board));
+        for (const element of Object.values(summed.elements)) {
+            if ('arrow' !== element.type) continue;
+            for (const item of Object.values((element as schema.ArrowElement).value!)) item.pill = false;
+        }
+
+        const solutions = await getSolutions(summed, 100);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            expect(solution[0]! + solution[1]!).toBe(bodySum(solution));
+        }
+    });
+});
@@ -0,0 +1,48 @@
+import { cantAttempt } from "../dist/solver-sat";
+import { cellCoord2CellIdx } from "@sudoku-studio/board-utils";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+function createBoard(width: number, height: number, numDigits?: number): schema.Board {
+    return {
+        grid: { width, height },
+        meta: { digits: null == numDigits ? undefined : { min: 1, max: numDigits } },
+        elements: {
+            '1': { type: 'grid', order: 0 },
+            '10': { type: 'givens', order: 0, value: {} },
+        },
+    };
+}
+
+function getLine(solution: IdxMap<Geometry.CELL, number>, board: schema.Board, coords: [ number, number ][]): number[] {
+    return coords.map(coord => solution[cellCoord2CellIdx(coord, board.grid)]!);
+}
+
+describe('Rectangular Grids', () => {
+    test('6x9 with digits 1-6', async () => {
+        const board = createBoard(6, 9, 6);
+        expect(cantAttempt(board)).toBeNull();
+
+        const [ solution ] = await getSolutions(board);
+        expect(solution).toBeDefined();
+        for (let y = 0; y < 9; y++) {
+            const row = getLine(solution, board, Array.from({ length: 6 }, (_, x) => [ x, y ]));
+            expect(row.sort()).toEqual([ 1, 2, 3, 4, 5, 6 ]);
+        }
+    });
+
+    test('6x9 with default digits 1-9', async () => {
+        const board = createBoard(6, 9);
+
+        const [ solution ] = await getSolutions(board);
+        expect(solution).toBeDefined();
+        for (let x = 0; x < 6; x++) {
+            const col = getLine(solution, board, Array.from({ length: 9 }, (_, y) => [ x, y ]));
+            expect(col.sort()).toEqual([ 1, 2, 3, 4, 5, 6, 7, 8, 9 ]);
+        }
+        for (let y = 0; y < 9; y++) {
+            const row = getLine(solution, board, Array.from({ length: 6 }, (_, x) => [ x, y ]));
+            expect(new Set(row).size).toBe(6);
+        }
+    });
+});
@@ -0,0 +1,37 @@
+import { fPuzzles } from "@sudoku-studio/board-format";
+import { schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+describe('Region Sum Lines', () => {
+    // Line from r1c1 through r1c3, crossing from the first box into the second.
+    const board = fPuzzles.parseFpuzzles('N4IgzglgXgpiBcAWANCA5gJwgEwQbT2AF9ljSTiBdZQiu86285qms9uy6kDGNCAPYA7MAFcAtgBsIQuPEIhpssPjwgASgEYAwppCot2gEz6NOgMwguRSkSA=',
+        (type, value) => ({ type, value } as any));
+
+    test('f-puzzles import', () => {
+        const lines = Object.values(board.elements).filter(({ type }) => 'regionSumLine' === type) as schema.LineElement[];
+        expect(lines.map(({ value }) => Object.values(value!))).toEqual([ [ [ 0, 1, 2 ] ] ]);
+    });
+
+    test('segments have equal sums', async () => {
+        const solutions = await getSolutions(board, 1000);
+        expect(solutions.length).toBeGreaterThan(0);
+        for (const solution of solutions) {
+            expect(solution[0]! + solution[1]!).toBe(solution[2]!);
+        }
+    }, 30_000);
+
+    test('segments follow irregular regions', async () => {
+        // Rows as regions, so the whole line is in one segment and unconstrained.
+        const rows = [ 0, 1, 2, 3 ].map(y => Object.fromEntries([ 0, 1, 2, 3 ].map(x => [ 4 * y + x, true ])));
+        const irregular: schema.Board = {
+            ...board,
+            elements: {
+                ...Object.fromEntries(Object.entries(board.elements).filter(([ _id, { type } ]) => 'gridRegion' !== type)),
+                regions: { type: 'gridRegion', order: 0, value: rows },
+            },
+        };
+
+        const solutions = await getSolutions(irregular, 1000);
+        expect(solutions.some(solution => solution[0]! + solution[1]! !== solution[2]!)).toBeTruthy();
+    }, 30_000);
+});
@@ -0,0 +1,76 @@
+import { SolverSession } from "../dist/solver-sat";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { getSolutions } from "./helpers";
+
+const MAX_SOLUTIONS = 1000;
+
+function createBoard(): schema.Board {
+    return {
+        grid: { width: 4, height: 4 },
+        meta: {},
+        elements: {
+            '1': { type: 'grid', order: 0 },
+            '10': { type: 'givens', order: 0, value: { 0: 1, 1: 2, 2: 3, 3: 4 } },
+        },
+    };
+}
+
+async function getSessionSolutions(session: SolverSession): Promise<IdxMap<Geometry.CELL, number>[]> {
+    const solns: IdxMap<Geometry.CELL, number>[] = [];
+    const success = await session.solve(MAX_SOLUTIONS, soln => {
+        if (null != soln) solns.push(soln);
+    });
+    expect(success).toBeTruthy();
+    return solns;
+}
+
+async function expectSameSolutions(session: SolverSession, board: schema.Board): Promise<void> {
+    const expected = await getSolutions(board, MAX_SOLUTIONS);
+    const actual = await getSessionSolutions(session);
+    expect(actual.length).toBe(expected.length);
+    expect(actual).toEqual(expect.arrayContaining(expected));
+}
+
+describe('Solver Session', () => {
+    test('matches solve across edits', async () => {
+        const board = createBoard();
+        const session = await SolverSession.create(board);
+        try {
+            await expectSameSolutions(session, board);
+            // Solutions are not excluded from later solves.
+            await expectSameSolutions(session, board);
+
+            board.elements['10'] = { type: 'givens', order: 0, value: { 0: 1, 1: 2, 2: 3, 3: 4, 4: 3 } };
+            session.update({ '10': board.elements['10'] });
+            await expectSameSolutions(session, board);
+
+            board.elements['cage'] = { type: 'killer', order: 0, value: { a: { sum: 3, cells: { 5: true, 6: true } } } };
+            session.update({ 'cage': board.elements['cage'] });
+            await expectSameSolutions(session, board);
+
+            delete board.elements['cage'];
+            session.update({ 'cage': null });
+            await expectSameSolutions(session, board);
+        }
+        finally {
+            session.free();
+        }
+    });
+
+    test('unsolvable then fixed', async () => {
+        const board = createBoard();
+        const session = await SolverSession.create(board);
+        try {
+            board.elements['10'] = { type: 'givens', order: 0, value: { 0: 1, 1: 1 } };
+            session.update({ '10': board.elements['10'] });
+            expect(await getSessionSolutions(session)).toEqual([]);
+
+            board.elements['10'] = { type: 'givens', order: 0, value: { 0: 1, 1: 2 } };
+            session.update({ '10': board.elements['10'] });
+            await expectSameSolutions(session, board);
+        }
+        finally {
+            session.free();
+        }
+    });
+});
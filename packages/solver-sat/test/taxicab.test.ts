@@ -0,0 +1,39 @@
+import { solve } from "../dist/solver-sat";
+import { boardRepr, cellCoord2CellIdx, taxicabMoves } from "@sudoku-studio/board-utils";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+
+async function getSolution(element: schema.Element): Promise<[ schema.Board, IdxMap<Geometry.CELL, number> ]> {
+    const board = boardRepr.createNewBoard((type, value) => ({ type, value } as any));
+    board.elements['taxicab'] = element;
+
+    let solution: null | IdxMap<Geometry.CELL, number> = null;
+    const success = await solve(board, 1, soln => {
+        if (null != soln) solution = soln;
+    });
+    expect(success).toBeTruthy();
+    expect(solution).not.toBeNull();
+    return [ board, solution! ];
+}
+
+describe('Taxicab', () => {
+    test('taxicab', async () => {
+        const distance = 4;
+        const [ board, solution ] = await getSolution({ type: 'taxicab', order: 0, value: distance });
+
+        for (const [ a, b ] of taxicabMoves(distance, board.grid)) {
+            expect(solution[cellCoord2CellIdx(a, board.grid)]).not.toBe(solution[cellCoord2CellIdx(b, board.grid)]);
+        }
+    });
+
+    test('self taxicab', async () => {
+        const [ board, solution ] = await getSolution({ type: 'selfTaxicab', order: 0, value: true } as any);
+
+        for (let distance = 1; distance <= board.grid.width; distance++) {
+            for (const [ a, b ] of taxicabMoves(distance, board.grid)) {
+                const digitA = solution[cellCoord2CellIdx(a, board.grid)];
+                const digitB = solution[cellCoord2CellIdx(b, board.grid)];
+                expect(distance === digitA && distance === digitB).toBeFalsy();
+            }
+        }
+    });
+});
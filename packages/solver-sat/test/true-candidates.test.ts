@@ -0,0 +1,64 @@
+import { solveTrueCandidates } from "../dist/solver-sat";
+import { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
+import { create4x4Board, getSolutions } from "./helpers";
+
+function createBoard(): schema.Board {
+    return create4x4Board({ type: 'givens', order: 0, value: { 0: 1, 5: 3 } });
+}
+
+async function getCandidatesBySolving(board: schema.Board): Promise<IdxMap<Geometry.CELL, number[]>> {
+    const candidates: IdxMap<Geometry.CELL, Set<number>> = {};
+    for (const soln of await getSolutions(board, 1000)) {
+        for (const [ cellIdx, value ] of Object.entries(soln)) {
+            (candidates[cellIdx] || (candidates[cellIdx] = new Set())).add(value!);
+        }
+    }
+
+    const result: IdxMap<Geometry.CELL, number[]> = {};
+    for (const [ cellIdx, values ] of Object.entries(candidates)) {
+        result[cellIdx] = [ ...values! ].sort();
+    }
+    return result;
+}
+
+describe('True Candidates', () => {
+    test('matches all solutions and streams settled cells', async () => {
+        const board = createBoard();
+
+        const streamed: IdxMap<Geometry.CELL, Map<number, number>>[] = [];
+        let complete = false;
+        const success = await solveTrueCandidates(board, candidates => {
+            expect(complete).toBeFalsy();
+            if (null == candidates) complete = true;
+            else streamed.push(candidates);
+        });
+        expect(success).toBeTruthy();
+        expect(complete).toBeTruthy();
+
+        // One update per cell, then the full result.
+        expect(streamed.length).toBe(17);
+        for (let cellIdx = 0; cellIdx < 16; cellIdx++) {
+            expect(Object.keys(streamed[cellIdx])).toEqual([ `${cellIdx}` ]);
+        }
+
+        const result = streamed[streamed.length - 1];
+        const actual: IdxMap<Geometry.CELL, number[]> = {};
+        for (const [ cellIdx, values ] of Object.entries(result)) {
+            actual[cellIdx] = [ ...values!.keys() ].sort();
+        }
+        expect(actual).toEqual(await getCandidatesBySolving(board));
+    });
+
+    test('few solutions', async () => {
+        const board = createBoard();
+        board.elements['3'].value = { 0: 1, 1: 2, 2: 3, 4: 3, 5: 4, 8: 2, 9: 1 };
+
+        const streamed: (null | IdxMap<Geometry.CELL, Map<number, number>>)[] = [];
+        const success = await solveTrueCandidates(board, candidates => streamed.push(candidates));
+        expect(success).toBeTruthy();
+
+        expect(streamed.length).toBe(2);
+        expect(streamed[1]).toBeNull();
+        expect(streamed[0]![15]).toEqual(new Map([ [ 1, 1 ], [ 2, 1 ] ]));
+    });
+});
@@ -0,0 +1,38 @@
+import { schema } from "@sudoku-studio/schema";
+import { create4x4Board, getSolutions } from "./helpers";
+
+async function getLineDigits(type: schema.LineElement['type'], cells: number[]): Promise<number[][]> {
+    const solns = await getSolutions(create4x4Board({ type, order: 0, value: { a: cells } }), 1000);
+    expect(solns.length).toBeGreaterThan(0);
+    return solns.map(soln => cells.map(idx => soln[idx]!));
+}
+
+describe('Zipper', () => {
+    test('odd length sums to the center', async () => {
+        // r1c1, r2c1, r2c2, r2c3, r1c3.
+        for (const digits of await getLineDigits('zipper', [ 0, 4, 5, 6, 2 ])) {
+            expect(digits[0] + digits[4]).toBe(digits[2]);
+            expect(digits[1] + digits[3]).toBe(digits[2]);
+        }
+    });
+
+    test('even length has equal sums', async () => {
+        // r1c1, r2c1, r2c2, r2c3, r2c4, r1c4.
+        const lineDigits = await getLineDigits('zipper', [ 0, 4, 5, 6, 7, 3 ]);
+        for (const digits of lineDigits) {
+            expect(digits[1] + digits[4]).toBe(digits[0] + digits[5]);
+            expect(digits[2] + digits[3]).toBe(digits[0] + digits[5]);
+        }
+        // Not required to sum to any digit on the line.
+        expect(lineDigits.some(digits => !digits.includes(digits[0] + digits[5]))).toBeTruthy();
+    });
+});
+
+describe('Nabner', () => {
+    test('no equal or consecutive digits', async () => {
+        // r1c1, r3c3. Only two digits fit on a line with digits 1 to 4.
+        for (const digits of await getLineDigits('nabner', [ 0, 10 ])) {
+            expect(Math.abs(digits[0] - digits[1])).toBeGreaterThanOrEqual(2);
+        }
+    });
+});
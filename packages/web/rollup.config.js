@@ -23,6 +23,7 @@ const PATH_PUBLIC = path.resolve('public');
 const PATH_OUTPUT = path.join(PATH_PUBLIC, 'build');
 
 const FILE_WORKER_SATSOLVER = path.join(PATH_OUTPUT, 'satSolverWorker.js');
+const FILE_WORKER_LOGICALSOLVER = path.join(PATH_OUTPUT, 'logicalSolverWorker.js');
 
 // Main bundle.
 const configMain = {
@@ -39,6 +40,7 @@ const configMain = {
             values: {
                 '__replace.SUDOKU_STUDIO_VERSION': JSON.stringify(process.env.SUDOKU_STUDIO_VERSION || 'DEV'),
                 '__replace.WORKER_SATSOLVER_SCRIPT': JSON.stringify(path.relative(PATH_PUBLIC, FILE_WORKER_SATSOLVER)),
+                '__replace.WORKER_LOGICALSOLVER_SCRIPT': JSON.stringify(path.relative(PATH_PUBLIC, FILE_WORKER_LOGICALSOLVER)),
             },
         }),
         svelte({
@@ -134,8 +136,27 @@ const configSatSolverWorker = {
     ],
 };
 
+const configLogicalSolverWorker = {
+    input: 'src/js/solver/logicalSolverWorker.ts',
+    output: {
+        sourcemap: true,
+        format: 'iife',
+        name: 'logicalSolverWorker',
+        file: FILE_WORKER_LOGICALSOLVER,
+    },
+    plugins: [
+        resolve({
+            browser: true,
+            extension: [ '.js', '.ts' ]
+        }),
+        commonjs(),
+        typescript(),
+    ],
+};
+
 const configs = [
     configSatSolverWorker,
+    configLogicalSolverWorker,
     configMain,
 ];
 export default configs;
@@ -9,6 +9,7 @@ declare module 'web-worker:*' {
 declare const __replace: {
     SUDOKU_STUDIO_VERSION: string;
     WORKER_SATSOLVER_SCRIPT: string;
+    WORKER_LOGICALSOLVER_SCRIPT: string;
 };
 declare module 'save-svg-as-png' {
     export type Options = {
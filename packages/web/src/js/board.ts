@@ -1,6 +1,6 @@
 import type { Geometry, Idx, IdxMap, schema } from "@sudoku-studio/schema";
 import { Data, Diff, StateManager } from '@sudoku-studio/state-manager';
-import { getDigits as getDigitsHelper } from '@sudoku-studio/board-utils';
+import { getDigits as getDigitsHelper, getDigitSet } from '@sudoku-studio/board-utils';
 import { writable } from "svelte/store";
 
 export const boardSvg = writable<SVGSVGElement>();
@@ -25,6 +25,13 @@ export function getDigits(includeGivens: boolean = true, includeFilled: boolean
     return getDigitsHelper(getElements() || {}, includeGivens, includeFilled);
 }
 
+export function getBoardDigitSet(): Required<schema.DigitSet> {
+    return getDigitSet({
+        grid: boardState.get<schema.Board['grid']>('grid')!,
+        meta: boardState.get<schema.Board['meta']>('meta') || {},
+    });
+}
+
 export function getCellValue(markType: string, cellIndex: Idx<Geometry.CELL>): Data {
     const elements = getElements();
     const elementKey = getElementKey(elements!, markType);
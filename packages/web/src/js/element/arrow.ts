@@ -1,6 +1,6 @@
 import type { Geometry, Grid, Idx, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
 import type { Diff, StateRef } from "@sudoku-studio/state-manager";
-import { arrayObj2array, boardRepr, cellCoord2CellIdx, cellIdx2cellCoord } from "@sudoku-studio/board-utils";
+import { arrayObj2array, boardRepr, cellCoord2CellIdx, cellIdx2cellCoord, getArrowBulbWeights } from "@sudoku-studio/board-utils";
 import { pushHistory } from "../history";
 import { AdjacentCellPointerHandler, CellDragTapEvent } from "../input/adjacentCellPointerHandler";
 import type { InputHandler } from "../input/inputHandler";
@@ -15,23 +15,22 @@ export const arrowInfo: ElementInfo = {
         type: 'select',
         name: 'Arrow',
         icon: 'arrow',
+        hint: 'Shift-drag a new bulb to sum its digits instead of reading them as a number.',
     },
     getWarnings(value: schema.ArrowElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
         outer:
-        for (const { bulb, body } of Object.values(value || {})) {
-            const bulbArrReversed = arrayObj2array(bulb);
-            bulbArrReversed.reverse();
+        for (const { bulb, body, pill } of Object.values(value || {})) {
+            const bulbArr = arrayObj2array(bulb);
+            const bulbWeights = getArrowBulbWeights(bulbArr.length, pill);
 
             let targetSum = 0;
-            let power = 1;
-            for (const bulbIdx of bulbArrReversed) {
-                const digit = digits[bulbIdx];
+            for (let i = 0; i < bulbArr.length; i++) {
+                const digit = digits[bulbArr[i]];
                 if (null == digit) {
                     continue outer;
                 }
 
-                targetSum += power * digit;
-                power *= 10;
+                targetSum += bulbWeights[i] * digit;
             }
 
             const [ _bodyStart, ...bodyArrRest ] = arrayObj2array(body);
@@ -48,13 +47,13 @@ export const arrowInfo: ElementInfo = {
             }
 
             if (targetSum < actualSum || (allFilled && targetSum !== actualSum)) {
-                bulbArrReversed.forEach(idx => warnings[idx] = true);
+                bulbArr.forEach(idx => warnings[idx] = true);
                 bodyArrRest.forEach(idx => warnings[idx] = true);
             }
         }
     },
     meta: {
-        description: 'Digits along arrows must sum to the digit in the circle; digits may repeat.',
+        description: 'Digits along arrows must sum to the number in the circle or pill, read left-to-right or top-to-bottom, or to the sum of a summed bulb; digits may repeat.',
         tags: [ 'line', 'sum' ],
         category: [ 'local', 'line' ],
     },
@@ -102,10 +101,11 @@ export function getArrowInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVG
     let arrowRef: null | StateRef = null;
     let bulbCells: Idx<Geometry.CELL>[] = [];
     let bodyCells: Idx<Geometry.CELL>[] = [];
+    let pill = true;
 
-    function handleDragStart(idx: Idx<Geometry.CELL>): void {
+    function handleDragStart(idx: Idx<Geometry.CELL>, event: MouseEvent | TouchEvent): void {
         const existingArrows = stateRef.get<schema.ArrowElement['value']>() || {};
-        for (const [ arrowId, { bulb, body } ] of Object.entries(existingArrows)) {
+        for (const [ arrowId, { bulb, body, pill: existingPill } ] of Object.entries(existingArrows)) {
             const bulbArr = arrayObj2array(bulb || {});
             if (bulbArr.includes(idx)) {
                 // Adding body to existing arrow.
@@ -115,8 +115,10 @@ export function getArrowInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVG
                 mode = Mode.BODY;
                 bulbCells = bulbArr;
                 bodyCells = [ idx ];
+                pill = false !== existingPill;
 
                 arrowRef.ref(Mode.BULB).replace(bulbArr);
+                arrowRef.ref('pill').replace(pill ? null : false);
                 return;
             }
         }
@@ -125,6 +127,8 @@ export function getArrowInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVG
         mode = Mode.BULB;
         bulbCells = [ idx ];
         bodyCells = [];
+        // Bulbs are pills read as a number, shift-drag for a bulb whose digits are summed.
+        pill = !event.shiftKey;
     }
 
     function handle(event: CellDragTapEvent) {
@@ -132,7 +136,7 @@ export function getArrowInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVG
         const idx = cellCoord2CellIdx(coord, grid);
 
         if (Mode.DYNAMIC === mode)
-            handleDragStart(idx);
+            handleDragStart(idx, event.event);
 
         if (null == arrowRef) throw 'UNREACHABLE';
 
@@ -156,6 +160,8 @@ export function getArrowInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVG
 
         const minLength = (Mode.BULB === mode) ? 1 : 2;
         arrowRef.ref(mode).replace(minLength <= lineCells.length ? lineCells : null);
+        if (Mode.BULB === mode)
+            arrowRef.ref('pill').replace(pill ? null : false);
     }
 
     pointerHandler.onDragStart = (event: CellDragTapEvent) => {
@@ -183,6 +189,7 @@ export function getArrowInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVG
             };
             bulbCells.forEach((val, i) => diff.redo[`${path}/bulb/${i}`] = val);
             bodyCells.forEach((val, i) => diff.redo[`${path}/body/${i}`] = val);
+            if (!pill) diff.redo[`${path}/pill`] = false;
             pushHistory(diff);
         }
         arrowRef = null;
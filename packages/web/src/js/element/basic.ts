@@ -1,17 +1,16 @@
 import type { Geometry, Grid, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
-import { arrayObj2array, getColCellIdxes, getRowCellIdxes, idxMapToKeysArray, writeRepeatingDigits } from "@sudoku-studio/board-utils";
+import { arrayObj2array, getGridHouses, idxMapToKeysArray, writeRepeatingDigits } from "@sudoku-studio/board-utils";
 import type { ElementInfo } from "./element";
+import { boardState } from "../board";
 
 export const gridInfo: ElementInfo = {
     order: 101,
     permanent: true,
 
     getWarnings(_value: any, grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
-        for (let row = 0; row < grid.height; row++) {
-            writeRepeatingDigits(digits, getRowCellIdxes(row, grid), warnings);
-        }
-        for (let col = 0; col < grid.width; col++) {
-            writeRepeatingDigits(digits, getColCellIdxes(col, grid), warnings);
+        // Rows and columns of each sub-grid.
+        for (const house of getGridHouses(grid)) {
+            writeRepeatingDigits(digits, house, warnings);
         }
     }
 } as const;
@@ -22,6 +21,9 @@ export const gridRegionInfo: ElementInfo = {
 
     getWarnings(value: schema.GridRegionElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
         if (null == value) return;
+        // With chaos construction the regions shown are solved for, and may be stale.
+        const elements = boardState.get<schema.Board['elements']>('elements') || {};
+        if (Object.values(elements).some(({ type, value }) => 'chaosConstruction' === type && value)) return;
 
         const boxes = arrayObj2array(value || {});
         for (const box of boxes) {
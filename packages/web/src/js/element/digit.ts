@@ -13,6 +13,7 @@ export const givensInfo: ElementInfo = {
             blockedByGivens: false,
             blockedByFilled: false,
             nextMode: 'corner',
+            restrictToDigitSet: true,
         });
     },
     order: 220,
@@ -31,6 +32,7 @@ export const filledInfo: ElementInfo = {
             blockedByGivens: true,
             blockedByFilled: false,
             nextMode: 'corner',
+            restrictToDigitSet: true,
         });
     },
     order: 210,
@@ -43,6 +45,7 @@ export const cornerInfo: ElementInfo = {
             blockedByGivens: true,
             blockedByFilled: true,
             nextMode: 'center',
+            restrictToDigitSet: true,
         });
     },
     order: 200,
@@ -54,6 +57,7 @@ export const centerInfo: ElementInfo = {
             blockedByGivens: true,
             blockedByFilled: true,
             nextMode: 'colors',
+            restrictToDigitSet: true,
         });
     },
     order: 200,
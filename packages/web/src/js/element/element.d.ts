@@ -1,5 +1,5 @@
 import type { SvelteComponent } from "svelte";
-import type { Geometry, Idx, IdxBitset, IdxMap } from "@sudoku-studio/schema";
+import type { Geometry, Idx, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
 import type { StateRef } from "@sudoku-studio/state-manager";
 import type { PointerHandler } from "./pointerHandler";
 import type { InputHandler } from "../input/inputHandler";
@@ -11,6 +11,12 @@ export interface AbstractMenuComponent {
 }
 export interface SelectMenuComponent extends AbstractMenuComponent {
     type: 'select';
+    /** Shows a checkbox for the element's negative constraint. */
+    negative?: boolean;
+    /** Shows an input for the element's `delta`, which is left unset to use the default. */
+    delta?: Omit<NumberInfo, 'default'>;
+    /** How to use the tool beyond clicking and dragging, shown while it is selected. */
+    hint?: string;
 }
 
 export type CheckboxInfo = {
@@ -23,7 +29,18 @@ export interface CheckboxMenuComponent extends AbstractMenuComponent {
     checkbox: CheckboxInfo | Required<CheckboxInfo>[];
 }
 
-export type MenuComponent = SelectMenuComponent | CheckboxMenuComponent;
+export type NumberInfo = {
+    name: string,
+    min: number,
+    /** Value for newly added elements. */
+    default: number,
+};
+export interface NumberMenuComponent extends AbstractMenuComponent {
+    type: 'number';
+    number: NumberInfo;
+}
+
+export type MenuComponent = SelectMenuComponent | CheckboxMenuComponent | NumberMenuComponent;
 
 
 export type ElementInfo = {
@@ -38,7 +55,8 @@ export type ElementInfo = {
     inGlobalMenu?: null | boolean,
     menu?: null | MenuComponent,
 
-    getWarnings?: null | ((value: any, grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>) => void);
+    /** Method syntax, so handlers may narrow ELEMENT to their own element type. */
+    getWarnings?(value: any, grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>, digitSet: Required<schema.DigitSet>, element: schema.Element): void;
 
     /** Meta info, for seach. */
     meta?: null | {
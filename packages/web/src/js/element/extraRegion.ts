@@ -0,0 +1,31 @@
+import type { Geometry, Grid, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
+import type { StateRef } from "@sudoku-studio/state-manager";
+import { getCageInputHandler } from "../input/cageInputHandler";
+import type { InputHandler } from "../input/inputHandler";
+import { idxMapToKeysArray, writeRepeatingDigits } from "@sudoku-studio/board-utils";
+import type { ElementInfo } from "./element";
+
+export const extraRegionInfo: ElementInfo = {
+    getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+        return getCageInputHandler(ref, grid, svg, {
+            cellsPath: [],
+        });
+    },
+    order: 5,
+    inGlobalMenu: false,
+    menu: {
+        type: 'select',
+        name: 'Extra Region',
+        icon: 'extra-region',
+    },
+    getWarnings(value: schema.ExtraRegionElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+        for (const cells of Object.values(value || {})) {
+            writeRepeatingDigits(digits, idxMapToKeysArray<Geometry.CELL>(cells || {}), warnings);
+        }
+    },
+    meta: {
+        description: 'Digits may not repeat within each shaded extra region.',
+        tags: [ 'region', 'non-repeat', 'shaded' ],
+        category: [ 'local', 'area' ],
+    },
+};
@@ -1,10 +1,9 @@
-import type { Geometry, Grid, Idx, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
-import type { Diff, StateRef } from "@sudoku-studio/state-manager";
-import { AdjacentCellPointerHandler, CellDragTapEvent } from "../input/adjacentCellPointerHandler";
+import type { Geometry, Grid, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
+import type { StateRef } from "@sudoku-studio/state-manager";
+import { getCageInputHandler } from "../input/cageInputHandler";
 import type { InputHandler } from "../input/inputHandler";
 import { parseDigit } from "../input/inputHandler";
-import { boardRepr, cellCoord2CellIdx, idxMapToKeysArray, warnSum, writeRepeatingDigits } from "@sudoku-studio/board-utils";
-import { userCursorIsShownState, userSelectState } from "../user";
+import { evalCageOperator, idxMapToKeysArray, warnSum, writeRepeatingDigits } from "@sudoku-studio/board-utils";
 import type { ElementInfo } from "./element";
 import { pushHistory } from "../history";
 
@@ -18,37 +17,33 @@ export const killerInfo: ElementInfo = {
         icon: 'killer',
     },
     getWarnings(value: schema.KillerElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
-        for (const { sum, cells } of Object.values(value || {})) {
+        for (const { sum, op, repeat, cells } of Object.values(value || {})) {
             const cellsArr = idxMapToKeysArray<Geometry.CELL>(cells);
-            writeRepeatingDigits(digits, cellsArr, warnings);
+            if (!repeat) writeRepeatingDigits(digits, cellsArr, warnings);
 
             if ('number' !== typeof sum) continue;
-            warnSum(digits, cellsArr, warnings, sum);
+            if (null == op || '+' === op) {
+                warnSum(digits, cellsArr, warnings, sum);
+                continue;
+            }
+
+            const cageDigits = cellsArr.map(idx => digits[idx]);
+            if (0 < cageDigits.length && cageDigits.every(digit => null != digit) && sum !== evalCageOperator(op, cageDigits as number[])) {
+                cellsArr.forEach(idx => warnings[idx] = true);
+            }
         }
     },
     meta: {
-        description: 'Digits in cages must sum to the given cage total (if given); digits may not repeat.',
-        tags: [ 'partial', 'cage', 'sum' ],
+        description: 'Digits in cages must sum to the given cage total (if given); digits may not repeat. '
+            + 'Arithmetic cages use the operator shown instead, and may allow repeats. Type +, -, * or / to set the operator and R to allow repeats.',
+        tags: [ 'partial', 'cage', 'sum', 'kenken', 'product', 'difference', 'quotient', 'arithmetic' ],
         category: [ 'local', 'area' ],
     },
 };
 
 function getInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
-    const pointerHandler = new AdjacentCellPointerHandler(false);
-
-    let cageRef: null | StateRef = null;
-
-    enum Mode {
-        DYNAMIC,
-        ADDING,
-        REMOVING,
-    };
-    let mode = Mode.DYNAMIC;
-
     const max = 100;
-    function onDigitInput(code: string): boolean {
-        if (null == cageRef) return false;
-
+    function onDigitInput(cageRef: StateRef, code: string): boolean {
         let digit = parseDigit(code)
         if (undefined === digit) return false;
 
@@ -71,126 +66,34 @@ function getInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement): In
         return true;
     }
 
-    function getExistingCageAtIdx(idx: Idx<Geometry.CELL>): null | string {
-        for (const [ cageId, { sum: _, cells } ] of Object.entries(stateRef.get<schema.KillerElement['value']>() || {})) {
-            if (cells[idx]) {
-                return cageId;
-            }
-        }
-        return null;
-    }
-
-    function startDrag(idx: Idx<Geometry.CELL>): void {
-        if (Mode.DYNAMIC === mode) {
-            const cageId = getExistingCageAtIdx(idx);
-            cageRef = stateRef.ref(cageId || boardRepr.makeUid());
-            mode = null == cageId ? Mode.ADDING : Mode.REMOVING;
-        }
-    }
-
-    const fullDiff: Diff = {
-        redo: {},
-        undo: {},
+    const OPERATOR_KEYS: Record<string, schema.CageOperator> = {
+        '+': '+',
+        '-': '-',
+        '*': '*',
+        'x': '*',
+        '/': '/',
     };
+    function onOperatorInput(cageRef: StateRef, key: string): boolean {
+        if (null == cageRef.get()) return false;
 
-    function handle(event: CellDragTapEvent) {
-        const { coord, grid } = event;
-        const idx = cellCoord2CellIdx(coord, grid);
-
-        if (Mode.DYNAMIC === mode) {
-            startDrag(idx);
-        }
-        if (null == cageRef) throw 'UNREACHABLE';
-
-        const diff = cageRef.ref('cells', `${idx}`).replace(mode);
-        if (null != diff) {
-            Object.assign(fullDiff.redo, diff.redo);
-            Object.assign(fullDiff.undo, diff.undo);
+        if (key in OPERATOR_KEYS) {
+            const op = OPERATOR_KEYS[key];
+            // Sum is the default, so pressing the current operator again resets it.
+            const diff = cageRef.ref('op').replace(op === cageRef.ref('op').get() ? null : op);
+            pushHistory(diff);
+            return true;
         }
-    }
-
-    pointerHandler.onDragStart = (event: CellDragTapEvent) => {
-        mode = Mode.DYNAMIC;
-        handle(event);
-    };
-
-    pointerHandler.onDrag = (event: CellDragTapEvent) => {
-        mode = Mode.ADDING;
-        handle(event);
-    };
-
-    pointerHandler.onDragEnd = () => {
-        pushHistory(fullDiff);
-        fullDiff.redo = {};
-        fullDiff.undo = {};
-    };
-
-    pointerHandler.onTap = (event: CellDragTapEvent) => {
-        if (Mode.REMOVING !== mode) return;
-        // If we are still in the removing mode, delete the killer cage
-
-        const { coord, grid } = event;
-        const idx = cellCoord2CellIdx(coord, grid);
-
-        const cageId = getExistingCageAtIdx(idx);
-        if (null != cageId) {
-            // Delete
-            const diff = stateRef.ref(cageId).replace(null);
+        if ('r' === key.toLowerCase()) {
+            const diff = cageRef.ref('repeat').replace(cageRef.ref('repeat').get() ? null : true);
             pushHistory(diff);
+            return true;
         }
-    };
-
-    return {
-        load(): void {
-            // TODO: not really that great of a way of doing this.
-            userSelectState.replace(null);
-            userCursorIsShownState.replace(false);
-        },
-        unload(): void {
-            pointerHandler.mouseUp();
-        },
-
-        blur(_event: FocusEvent): void {
-        },
-
-        keydown(event: KeyboardEvent): void {
-            if (onDigitInput(event.code)) {
-                event.stopImmediatePropagation();
-                event.preventDefault();
-            }
-        },
-        keyup(_event: KeyboardEvent): void {
-        },
-        padClick(event: MouseEvent & { currentTarget: EventTarget & HTMLButtonElement }): void {
-            if (onDigitInput(event.currentTarget.value)) {
-                event.stopImmediatePropagation();
-                event.preventDefault();
-            }
-        },
+        return false;
+    }
 
-        mouseDown(event: MouseEvent): void {
-            pointerHandler.mouseDown(event, grid, svg);
-        },
-        mouseMove(event: MouseEvent): void {
-            pointerHandler.mouseMove(event, grid, svg);
-        },
-        mouseUp(_event: MouseEvent): void {
-            pointerHandler.mouseUp();
-        },
-        leave(event: MouseEvent): void {
-            pointerHandler.leave(event, grid, svg);
-        },
-        click(event: MouseEvent): void {
-            pointerHandler.click(event, grid, svg);
-        },
-        touchDown(event: TouchEvent): void {
-            pointerHandler.touchDown(event, grid, svg);
-        },
-        touchMove(event: TouchEvent): void {
-            pointerHandler.touchMove(event, grid, svg);
-        },
-        touchUp(event: TouchEvent): void {
-            pointerHandler.touchUp(event, grid, svg);
-        },
-    } as const;
+    return getCageInputHandler(stateRef, grid, svg, {
+        cellsPath: [ 'cells' ],
+        onKeydown: (cageRef, event) => onDigitInput(cageRef, event.code) || onOperatorInput(cageRef, event.key),
+        onPadClick: onDigitInput,
+    });
 }
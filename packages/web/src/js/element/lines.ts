@@ -3,7 +3,8 @@ import type { StateRef } from "@sudoku-studio/state-manager";
 import type { InputHandler } from "../input/inputHandler";
 import type { ElementInfo } from "./element";
 import { getLineInputHandler } from "../input/lineInputHandler";
-import { arrayObj2array, warnClones } from "@sudoku-studio/board-utils";
+import { arrayObj2array, getGridRegions, getLineClasses, getLineDelta, getMirroredCells, getRegionSegments, warnClones } from "@sudoku-studio/board-utils";
+import { boardState } from "../board";
 
 export const thermoInfo: ElementInfo = {
     getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
@@ -217,9 +218,15 @@ export const lockoutInfo: ElementInfo = {
         type: 'select',
         name: 'Lockout',
         icon: 'lockout',
+        delta: {
+            name: 'Minimum difference between circles',
+            min: 1,
+        },
     },
-    getWarnings(value: schema.LineElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
-        const delta = ((grid.width + 1) >> 1) - 1; // TODO: make this configurable somehow.
+    getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+        digitSet: Required<schema.DigitSet>, element: schema.LineElement): void
+    {
+        const delta = getLineDelta(element, digitSet.max - digitSet.min + 1);
 
         for (const cells of Object.values(value || {})) {
             const lineCells = arrayObj2array(cells);
@@ -250,7 +257,7 @@ export const lockoutInfo: ElementInfo = {
         }
     },
     meta: {
-        description: 'Digits on lockout lines must not be between or equal to the digits in the circles. Circles must differ by at least 4. Digits may repeat.',
+        description: 'Digits on lockout lines must not be between or equal to the digits in the circles. Circles must differ by at least 4, or the difference given. Digits may repeat.',
         tags: [ 'line', 'range' ],
         category: [ 'local', 'line' ],
     },
@@ -273,12 +280,7 @@ export const palindromeInfo: ElementInfo = {
     },
     getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
         for (const cells of Object.values(value || {})) {
-            const cellsArr = arrayObj2array(cells);
-
-            const cellsA = cellsArr.slice(0, cellsArr.length >> 1);
-            const cellsB = cellsArr.slice(-cellsA.length);
-            cellsB.reverse();
-
+            const [ cellsA, cellsB ] = getMirroredCells(arrayObj2array(cells));
             warnClones(digits, cellsA, cellsB, warnings);
         }
     },
@@ -289,7 +291,47 @@ export const palindromeInfo: ElementInfo = {
     },
 };
 
-function getWhisperInfo(deltaFunc: (gridWidth: number) => number, constraintName: string, icon: string, description: string, tags: string[]): ElementInfo {
+export const zipperInfo: ElementInfo = {
+    getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+        return getLineInputHandler(ref, grid, svg, {
+            deletePrioritizeHead: false,
+            deletePrioritizeTail: false,
+            allowSelfIntersection: true,
+        });
+    },
+    order: 60,
+    inGlobalMenu: false,
+    menu: {
+        type: 'select',
+        name: 'Zipper',
+        icon: 'zipper',
+    },
+    getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+        for (const cells of Object.values(value || {})) {
+            const [ cellsA, cellsB, middle ] = getMirroredCells(arrayObj2array(cells));
+
+            // Pairs must sum to the middle digit, or on even lines to the same as each other.
+            const pairs = cellsA.map((cellIdx, i) => [ cellIdx, cellsB[i] ]);
+            const completePairs = pairs.filter(pair => pair.every(cellIdx => null != digits[cellIdx]));
+            const targetCells = null != middle ? [ middle ] : completePairs[0];
+            if (null == targetCells || targetCells.some(cellIdx => null == digits[cellIdx])) continue;
+
+            const target = targetCells.reduce((sum, cellIdx) => sum + digits[cellIdx]!, 0);
+            for (const pair of completePairs) {
+                if (target !== digits[pair[0]]! + digits[pair[1]]!) {
+                    [ ...targetCells, ...pair ].forEach(cellIdx => warnings[cellIdx] = true);
+                }
+            }
+        }
+    },
+    meta: {
+        description: 'Digits equidistant from the center of zipper lines must sum to the digit in the center. On lines of even length, they must sum to the same total.',
+        tags: [ 'line', 'sum' ],
+        category: [ 'local', 'line' ],
+    },
+};
+
+function getWhisperInfo(constraintName: string, icon: string, description: string, tags: string[]): ElementInfo {
     return {
         getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
             return getLineInputHandler(ref, grid, svg, {
@@ -304,9 +346,15 @@ function getWhisperInfo(deltaFunc: (gridWidth: number) => number, constraintName
             type: 'select',
             name: constraintName,
             icon: icon,
+            delta: {
+                name: 'Minimum difference',
+                min: 1,
+            },
         },
-        getWarnings(value: schema.LineElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
-            const delta = deltaFunc(grid.width); // TODO: make this configurable somehow.
+        getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+            digitSet: Required<schema.DigitSet>, element: schema.LineElement): void
+        {
+            const delta = getLineDelta(element, digitSet.max - digitSet.min + 1);
     
             for (const cells of Object.values(value || {})) {
                 const cellsArr = arrayObj2array(cells);
@@ -336,21 +384,87 @@ function getWhisperInfo(deltaFunc: (gridWidth: number) => number, constraintName
 };
 
 export const germanWhisperInfo: ElementInfo = getWhisperInfo(
-    (gridWidth) => (gridWidth + 1) >> 1,
     'German Whisper',
     'whisper',
-    'Adjacent digits along German Whispers must differ by at least 5; digits may repeat.',
+    'Adjacent digits along German Whispers must differ by at least 5, or the difference given; digits may repeat.',
     [ 'line', 'german', 'five', '5' ],
 );
 
 export const dutchWhisperInfo: ElementInfo = getWhisperInfo(
-    (gridWidth) => ((gridWidth + 1) >> 1) - 1,
     'Dutch Whisper',
     'dutch-whisper',
-    'Adjacent digits along Dutch Whispers must differ by at least 4; digits may repeat.',
+    'Adjacent digits along Dutch Whispers must differ by at least 4, or the difference given; digits may repeat.',
     [ 'line', 'dutch', 'five', '4' ],
 );
 
+function getLineClassInfo(constraintName: string, icon: string, description: string, tags: string[]): ElementInfo {
+    return {
+        getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+            return getLineInputHandler(ref, grid, svg, {
+                deletePrioritizeHead: false,
+                deletePrioritizeTail: false,
+                allowSelfIntersection: true,
+            });
+        },
+        order: 70,
+        inGlobalMenu: false,
+        menu: {
+            type: 'select',
+            name: constraintName,
+            icon: icon,
+        },
+        getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+            digitSet: Required<schema.DigitSet>, element: schema.LineElement): void
+        {
+            const [ window, classOf ] = getLineClasses(element.type, digitSet)!;
+
+            for (const cells of Object.values(value || {})) {
+                const cellsArr = arrayObj2array(cells);
+                if (cellsArr.length < window) continue;
+
+                for (let i = 0; i < cellsArr.length; i++) {
+                    for (let j = i + 1; j < Math.min(i + window, cellsArr.length); j++) {
+                        const digitA = digits[cellsArr[i]];
+                        const digitB = digits[cellsArr[j]];
+                        if (null == digitA || null == digitB) continue;
+
+                        if (classOf(digitA) === classOf(digitB)) {
+                            warnings[cellsArr[i]] = true;
+                            warnings[cellsArr[j]] = true;
+                        }
+                    }
+                }
+            }
+        },
+        meta: {
+            description: description,
+            tags: tags,
+            category: [ 'local', 'line' ],
+        },
+    };
+}
+
+export const entropicLineInfo: ElementInfo = getLineClassInfo(
+    'Entropic Line',
+    'entropic-line',
+    'Every three consecutive digits along entropic lines must contain one low (1-3), one middle (4-6) and one high (7-9) digit.',
+    [ 'line', 'entropy', 'low', 'middle', 'high' ],
+);
+
+export const modularLineInfo: ElementInfo = getLineClassInfo(
+    'Modular Line',
+    'modular-line',
+    'Every three consecutive digits along modular lines must contain one from each of 147, 258 and 369.',
+    [ 'line', 'modulo', 'mod', '3' ],
+);
+
+export const parityLineInfo: ElementInfo = getLineClassInfo(
+    'Parity Line',
+    'parity-line',
+    'Adjacent digits along parity lines must alternate between odd and even.',
+    [ 'line', 'parity', 'odd', 'even' ],
+);
+
 export const renbanInfo: ElementInfo = {
     getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
         return getLineInputHandler(ref, grid, svg, {
@@ -395,3 +509,85 @@ export const renbanInfo: ElementInfo = {
         category: [ 'local', 'line' ],
     },
 };
+
+export const nabnerInfo: ElementInfo = {
+    getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+        return getLineInputHandler(ref, grid, svg, {
+            deletePrioritizeHead: false,
+            deletePrioritizeTail: false,
+            allowSelfIntersection: true,
+        });
+    },
+    order: 80,
+    inGlobalMenu: false,
+    menu: {
+        type: 'select',
+        name: 'Nabner',
+        icon: 'nabner',
+    },
+    getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+        for (const cells of Object.values(value || {})) {
+            const uniqueCellsArr = [...new Set(arrayObj2array(cells))];
+
+            for (let i = 0; i < uniqueCellsArr.length; i++) {
+                for (let j = i + 1; j < uniqueCellsArr.length; j++) {
+                    const digitA = digits[uniqueCellsArr[i]];
+                    const digitB = digits[uniqueCellsArr[j]];
+                    if (null == digitA || null == digitB) continue;
+
+                    if (Math.abs(digitA - digitB) < 2) {
+                        warnings[uniqueCellsArr[i]] = true;
+                        warnings[uniqueCellsArr[j]] = true;
+                    }
+                }
+            }
+        }
+    },
+    meta: {
+        description: 'No two digits along nabner lines may be equal or consecutive.',
+        tags: [ 'line', 'non-repeat', 'non-consecutive' ],
+        category: [ 'local', 'line' ],
+    },
+};
+
+export const regionSumLineInfo: ElementInfo = {
+    getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+        return getLineInputHandler(ref, grid, svg, {
+            deletePrioritizeHead: false,
+            deletePrioritizeTail: false,
+            allowSelfIntersection: true,
+        });
+    },
+    order: 80,
+    inGlobalMenu: false,
+    menu: {
+        type: 'select',
+        name: 'Region Sum Line',
+        icon: 'region-sum-line',
+    },
+    getWarnings(value: schema.LineElement['value'], _grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>, digitSet: Required<schema.DigitSet>): void {
+        const regions = getGridRegions(boardState.get<schema.Board['elements']>('elements') || {});
+        for (const cells of Object.values(value || {})) {
+            const segments = getRegionSegments(arrayObj2array(cells), regions);
+
+            // Sums of the complete segments, and partial sums of the rest, which can only grow if digits aren't negative.
+            const sums = segments.map(segment => segment.reduce((sum, cellIdx) => sum + (digits[cellIdx] || 0), 0));
+            const complete = segments.map(segment => segment.every(cellIdx => null != digits[cellIdx]));
+
+            const targetIdx = complete.indexOf(true);
+            if (0 > targetIdx) continue;
+            const target = sums[targetIdx];
+
+            segments.forEach((segment, i) => {
+                if (complete[i] ? target !== sums[i] : (0 <= digitSet.min && target < sums[i])) {
+                    [ ...segments[targetIdx], ...segment ].forEach(cellIdx => warnings[cellIdx] = true);
+                }
+            });
+        }
+    },
+    meta: {
+        description: 'Digits along region sum lines must have an equal sum within each box the line passes through; digits may repeat.',
+        tags: [ 'line', 'sum', 'region' ],
+        category: [ 'local', 'line' ],
+    },
+};
@@ -1,6 +1,6 @@
 import type { Coord, Geometry, Grid, Idx, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
 import type { StateRef } from "@sudoku-studio/state-manager";
-import { cellCoord2CellIdx, click2svgCoord, diagonalIdx2diagonalCellCoords, edgeIdx2cellIdxes, seriesIdx2CellCoords, svgCoord2diagonalIdx, svgCoord2edgeIdx, svgCoord2seriesIdx, warnSum } from "@sudoku-studio/board-utils";
+import { cellCoord2CellIdx, cellCoords2edgeIdx, click2svgCoord, diagonalIdx2diagonalCellCoords, edgeIdx2cellIdxes, getOrthogonallyAdjacentPairs, seriesIdx2CellCoords, svgCoord2diagonalIdx, svgCoord2edgeIdx, svgCoord2seriesIdx, warnSum } from "@sudoku-studio/board-utils";
 import { getTouchPosition, InputHandler, parseDigit } from "../input/inputHandler";
 import { userCursorIsShownState, userSelectState } from "../user";
 import type { ElementInfo } from "./element";
@@ -18,9 +18,12 @@ export const differenceInfo: ElementInfo = {
     menu: {
         type: 'select',
         name: 'Difference',
+        negative: true,
         icon: 'kropki',
     },
-    getWarnings(value: schema.EdgeNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+    getWarnings(value: schema.EdgeNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+        _digitSet: Required<schema.DigitSet>, element: schema.EdgeNumberElement): void
+    {
         for (const [ edgeIdx, differenceOrTrue ] of Object.entries(value || {})) {
             if (null == differenceOrTrue) continue;
             const difference = true === differenceOrTrue ? 1 : differenceOrTrue;
@@ -35,6 +38,8 @@ export const differenceInfo: ElementInfo = {
                 warnings[idxB] = true;
             }
         }
+
+        warnNegativeEdges(element, grid, digits, warnings, (digitA, digitB) => 1 === Math.abs(digitA - digitB));
     },
     meta: {
         description: 'Cells separated by a white dot must differ by 1, or the number given.',
@@ -55,9 +60,12 @@ export const ratioInfo: ElementInfo = {
     menu: {
         type: 'select',
         name: 'Ratio',
+        negative: true,
         icon: 'kropki',
     },
-    getWarnings(value: schema.EdgeNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+    getWarnings(value: schema.EdgeNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+        _digitSet: Required<schema.DigitSet>, element: schema.EdgeNumberElement): void
+    {
         for (const [ edgeIdx, ratioOrTrue ] of Object.entries(value || {})) {
             if (null == ratioOrTrue) continue;
             const ratio = true === ratioOrTrue ? 2 : ratioOrTrue;
@@ -72,6 +80,8 @@ export const ratioInfo: ElementInfo = {
                 warnings[idxB] = true;
             }
         }
+
+        warnNegativeEdges(element, grid, digits, warnings, (digitA, digitB) => 2 * digitA === digitB || 2 * digitB === digitA);
     },
     meta: {
         description: 'Cells separated by a black dot must have a ratio of 2, or the number given.',
@@ -97,9 +107,12 @@ export const xvInfo: ElementInfo = {
     menu: {
         type: 'select',
         name: 'XV Sum',
+        negative: true,
         icon: 'xv',
     },
-    getWarnings(value: schema.EdgeNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+    getWarnings(value: schema.EdgeNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+        _digitSet: Required<schema.DigitSet>, element: schema.EdgeNumberElement): void
+    {
         for (const [ edgeIdx, sum ] of Object.entries(value || {})) {
             if ('number' !== typeof sum) continue;
 
@@ -113,6 +126,8 @@ export const xvInfo: ElementInfo = {
                 warnings[idxB] = true;
             }
         }
+
+        warnNegativeEdges(element, grid, digits, warnings, (digitA, digitB) => 5 === digitA + digitB || 10 === digitA + digitB);
     },
     meta: {
         description: 'Cells separated by a roman numeral must sum to that number.',
@@ -164,15 +179,15 @@ export const sandwichInfo: ElementInfo = {
         name: 'Sandwich',
         icon: 'sandwich',
     },
-    getWarnings(value: schema.SeriesNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+    getWarnings(value: schema.SeriesNumberElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>, digitSet: Required<schema.DigitSet>): void {
         for (const [ seriesIdx, sum ] of Object.entries(value || {})) {
             if ('number' !== typeof sum) continue;
 
             const seriesCells = seriesIdx2CellCoords(+seriesIdx, grid).map(coord => cellCoord2CellIdx(coord, grid));
             const seriesDigits = seriesCells.map(idx => digits[idx]);
 
-            const iMin = seriesDigits.indexOf(1);
-            const iMax = seriesDigits.indexOf(grid.width);
+            const iMin = seriesDigits.indexOf(digitSet.min);
+            const iMax = seriesDigits.indexOf(digitSet.max);
             if (iMin < 0 || iMax < 0) continue;
 
             const i = Math.min(iMin, iMax);
@@ -274,6 +289,31 @@ export const xsumInfo: ElementInfo = {
 };
 
 
+/**
+ * If ELEMENT is a negative constraint, warns for unmarked edges whose digits satisfy CONSTRAINT_FUNC.
+ */
+function warnNegativeEdges(element: schema.EdgeNumberElement, grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>,
+    constraintFunc: (digitA: number, digitB: number) => boolean): void
+{
+    if (!element.negative) return;
+
+    const value = element.value || {};
+    for (const [ coordA, coordB ] of getOrthogonallyAdjacentPairs(grid)) {
+        if (null != value[cellCoords2edgeIdx(coordA, coordB, grid)!]) continue;
+
+        const idxA = cellCoord2CellIdx(coordA, grid);
+        const idxB = cellCoord2CellIdx(coordB, grid);
+        const digitA = digits[idxA];
+        const digitB = digits[idxB];
+        if (null == digitA || null == digitB) continue;
+
+        if (constraintFunc(digitA, digitB)) {
+            warnings[idxA] = true;
+            warnings[idxB] = true;
+        }
+    }
+}
+
 
 
 type PositionNumberInputHandlerOptions<TAG extends Geometry> = {
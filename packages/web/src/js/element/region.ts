@@ -1,9 +1,9 @@
-import type { Geometry, Grid, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
+import type { Geometry, Grid, Idx, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
 import type { Diff, StateRef } from "@sudoku-studio/state-manager";
 import { getCellValue } from "../board";
 import { AdjacentCellPointerHandler, CellDragTapEvent } from "../input/adjacentCellPointerHandler";
 import type { InputHandler } from "../input/inputHandler";
-import { cellCoord2CellIdx, getBorderCellPairs, idxMapToKeysArray } from "@sudoku-studio/board-utils";
+import { cellCoord2CellIdx, cellIdx2cellCoord, getBorderCellPairs, getColCellIdxes, getRowCellIdxes, idxMapToKeysArray } from "@sudoku-studio/board-utils";
 import { pushHistory } from "../history";
 import { userCursorIsShownState, userSelectState } from "../user";
 import type { ElementInfo } from "./element";
@@ -113,7 +113,84 @@ export const oddInfo: ElementInfo = {
     },
 };
 
-function getInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement, oppositeConstraint: string): InputHandler {
+export const rowIndexInfo: ElementInfo = {
+    getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+        return getInputHandler(ref, grid, svg, null);
+    },
+    order: 30,
+    inGlobalMenu: false,
+    menu: {
+        type: 'select',
+        name: 'Row Index',
+        icon: 'row-index',
+    },
+    getWarnings(value: schema.IndexElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>, digitSet: Required<schema.DigitSet>): void {
+        writeIndexWarnings(idxMapToKeysArray(value || {}), true, grid, digits, warnings, digitSet);
+    },
+    meta: {
+        description: 'The digit in a red index cell gives the column of its row which contains the index cell\'s column number.',
+        tags: [ 'index', '159', 'position' ],
+        category: [ 'local', 'cell' ],
+    },
+};
+
+export const colIndexInfo: ElementInfo = {
+    getInputHandler(ref: StateRef, grid: Grid, svg: SVGSVGElement): InputHandler {
+        return getInputHandler(ref, grid, svg, null);
+    },
+    order: 31,
+    inGlobalMenu: false,
+    menu: {
+        type: 'select',
+        name: 'Column Index',
+        icon: 'col-index',
+    },
+    getWarnings(value: schema.IndexElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>, digitSet: Required<schema.DigitSet>): void {
+        writeIndexWarnings(idxMapToKeysArray(value || {}), false, grid, digits, warnings, digitSet);
+    },
+    meta: {
+        description: 'The digit in a blue index cell gives the row of its column which contains the index cell\'s row number.',
+        tags: [ 'index', '159', 'position' ],
+        category: [ 'local', 'cell' ],
+    },
+};
+
+/**
+ * Marks index CELLS (along rows if IS_ROW, otherwise columns) whose own row or column number is not at the position
+ * given by their digit, along with the cells in the way.
+ */
+function writeIndexWarnings(cells: Idx<Geometry.CELL>[], isRow: boolean, grid: Grid, digits: IdxMap<Geometry.CELL, number>,
+    warnings: IdxBitset<Geometry.CELL>, { min }: Required<schema.DigitSet>): void
+{
+    for (const cellIdx of cells) {
+        const digit = digits[cellIdx];
+        if (null == digit) continue;
+
+        const [ x, y ] = cellIdx2cellCoord(cellIdx, grid);
+        const line = isRow ? getRowCellIdxes(y, grid) : getColCellIdxes(x, grid);
+        const targetDigit = min + (isRow ? x : y);
+        const targetIdx = line[digit - min];
+        if (null == targetIdx) {
+            warnings[cellIdx] = true;
+            continue;
+        }
+
+        const targetValue = digits[targetIdx];
+        if (null != targetValue && targetDigit !== targetValue) {
+            warnings[cellIdx] = true;
+            warnings[targetIdx] = true;
+        }
+        // The target digit elsewhere.
+        for (const otherIdx of line) {
+            if (targetIdx !== otherIdx && targetDigit === digits[otherIdx]) {
+                warnings[cellIdx] = true;
+                warnings[otherIdx] = true;
+            }
+        }
+    }
+}
+
+function getInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement, oppositeConstraint: null | string): InputHandler {
     const pointerHandler = new AdjacentCellPointerHandler(true);
 
     enum Mode {
@@ -138,7 +215,7 @@ function getInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement, opp
             mode = stateRef.ref(`${idx}`).get<true>() ? Mode.REMOVING : Mode.ADDING;
         }
 
-        const oppositeConstraintValue = getCellValue(oppositeConstraint, idx);
+        const oppositeConstraintValue = null != oppositeConstraint && getCellValue(oppositeConstraint, idx);
         if (oppositeConstraintValue) {
             // Cannot place constraint if the opposite constraint is already in the cell
             return;
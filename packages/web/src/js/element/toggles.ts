@@ -1,5 +1,5 @@
 import type { Coord, Geometry, Grid, Idx, IdxBitset, IdxMap, schema } from "@sudoku-studio/schema";
-import { cellCoord2CellIdx, getMajorDiagonal, getOrthogonallyAdjacentPairs, kingMoves, knightMoves, product, writeRepeatingDigits } from "../../../../board-utils/lib/board-utils";
+import { cellCoord2CellIdx, getMajorDiagonal, getOrthogonallyAdjacentPairs, kingMoves, knightMoves, product, taxicabMoves, writeRepeatingDigits } from "../../../../board-utils/lib/board-utils";
 import type { ElementInfo } from "./element";
 
 export const diagonalInfo: ElementInfo = {
@@ -224,6 +224,71 @@ export const selfTaxicabInfo: ElementInfo = {
         },
         icon: 'cityblock',
     },
+    getWarnings(value: schema.BooleanElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+        if (value) {
+            for (const [ distance ] of product(grid.width + grid.height - 2)) {
+                for (const coords of taxicabMoves(distance + 1, grid)) {
+                    // Length-two array.
+                    const idxes = coords.map(coord => cellCoord2CellIdx(coord, grid))
+                        .filter(idx => distance + 1 === digits[idx]);
+                    writeRepeatingDigits(digits, idxes, warnings);
+                }
+            }
+        }
+    },
+    meta: {
+        description: 'Digits n cells apart, by edge adjacency only, may not repeat, where n is the digit in the cell.',
+        tags: [ 'taxicab', 'cityblock', 'distance' ],
+        category: [ 'global' ],
+    },
+};
+
+export const chaosConstructionInfo: ElementInfo = {
+    inGlobalMenu: true,
+    order: 0,
+    menu: {
+        type: 'checkbox',
+        name: 'Chaos Construction',
+        checkbox: {
+            name: 'Chaos Construction',
+            icon: 'chaos',
+        },
+        icon: 'chaos',
+    },
+    meta: {
+        description: 'The regions are not given. Divide the grid into orthogonally connected regions of N cells, which may not repeat digits.',
+        tags: [ 'region', 'house', 'chaos' ],
+        category: [ 'global' ],
+    },
+};
+
+export const taxicabInfo: ElementInfo = {
+    inGlobalMenu: true,
+    order: 0,
+    menu: {
+        type: 'number',
+        name: 'Taxicab',
+        icon: 'cityblock',
+        number: {
+            name: 'Distance',
+            min: 1,
+            default: 3,
+        },
+    },
+    getWarnings(value: schema.TaxicabElement['value'], grid: Grid, digits: IdxMap<Geometry.CELL, number>, warnings: IdxBitset<Geometry.CELL>): void {
+        if (null != value && 0 < value) {
+            for (const coords of taxicabMoves(value, grid)) {
+                // Length-two array.
+                const idxes = coords.map(coord => cellCoord2CellIdx(coord, grid));
+                writeRepeatingDigits(digits, idxes, warnings);
+            }
+        }
+    },
+    meta: {
+        description: 'Digits n cells apart, by edge adjacency only, may not repeat, where n is a preset number.',
+        tags: [ 'taxicab', 'cityblock', 'distance' ],
+        category: [ 'global' ],
+    },
 };
 
 function getConsecutiveWarnings(
@@ -1,13 +1,13 @@
 import { derived, readable } from "svelte/store";
 import type { StateRef } from "@sudoku-studio/state-manager";
 import type { ElementInfo } from "./element/element";
-import { boardGridRef, boardState, boardSvg, warningState } from "./board";
+import { boardGridRef, boardState, boardSvg, getBoardDigitSet, warningState } from "./board";
 import type { Geometry, Grid, IdxBitset, schema } from "@sudoku-studio/schema";
 import { createElement, ELEMENT_HANDLERS } from "./elements";
 import { userPrevToolState, userState, userToolState } from "./user";
 import type { InputHandler } from "./input/inputHandler";
 import { pushHistory } from "./history";
-import { boardRepr, getDigits } from "@sudoku-studio/board-utils";
+import { boardRepr, getDigits, isDigitInSet } from "@sudoku-studio/board-utils";
 
 export type ElementHandlerItem = { id: string, elementRef: StateRef, info: ElementInfo, type: schema.ElementType };
 export type ElementHandlerList = ElementHandlerItem[];
@@ -29,6 +29,9 @@ export function addElement<E extends schema.Element>(type: E['type'], value?: E[
             elementValue = dict;
         }
     }
+    if ('number' === handler.menu?.type && null == elementValue) {
+        elementValue = handler.menu.number.default;
+    }
 
     const element = createElement(type, elementValue);
     if (null == handler) throw Error(`Cannot add unimplmeneted element type: ${type}.`);
@@ -119,20 +122,28 @@ export const elementHandlers = readable<ElementHandlerList>([], set => {
     }, true);
 });
 
-boardState.ref('elements').watch<schema.Board['elements']>((_path, _oldElements, newElements) => {
+// Digit set changes in meta may also add or clear warnings.
+boardState.watch(() => {
+    const newElements = boardState.get<schema.Board['elements']>('elements');
     if (null == newElements) return;
-    const digits = getDigits(newElements);
+    const digitSet = getBoardDigitSet();
+    const digits = getDigits(newElements, true, true, isDigitInSet(0, digitSet));
 
     const warnings: IdxBitset<Geometry.CELL> = {};
+    // Digits outside the digit set.
+    for (const [ cellIdx, digit ] of Object.entries(digits)) {
+        if (!isDigitInSet(digit!, digitSet)) warnings[cellIdx] = true;
+    }
+
     const grid = boardGridRef.get<Grid>();
-    for (const { type, value } of Object.values(newElements)) {
-        const handler = ELEMENT_HANDLERS[type];
+    for (const element of Object.values(newElements)) {
+        const handler = ELEMENT_HANDLERS[element.type];
         if (null == handler || null == handler.getWarnings) continue;
 
-        handler.getWarnings(value, grid, digits, warnings);
+        handler.getWarnings(element.value, grid, digits, warnings, digitSet, element);
     }
     warningState.update({ 'cells': warnings });
-}, true);
+}, true, 'elements', 'meta');
 
 export const currentElement = readable<null | ElementHandlerItem>(null, set => {
     let list: ElementHandlerList = [];
@@ -3,15 +3,16 @@ import Fuse from 'fuse.js';
 import type { ElementInfo } from "./element/element";
 
 import { centerInfo, colorsInfo, cornerInfo, filledInfo, givensInfo } from "./element/digit";
-import { betweenInfo, doubleArrowInfo, lockoutInfo, palindromeInfo, renbanInfo, slowThermoInfo, thermoInfo, dutchWhisperInfo, germanWhisperInfo } from "./element/lines";
-import { consecutiveInfo, disjointGroupsInfo, diagonalInfo, knightInfo, kingInfo, antiXInfo, antiVInfo, selfTaxicabInfo } from "./element/toggles";
-import { evenInfo, maxInfo, minInfo, oddInfo } from "./element/region";
+import { betweenInfo, doubleArrowInfo, lockoutInfo, palindromeInfo, renbanInfo, slowThermoInfo, thermoInfo, dutchWhisperInfo, germanWhisperInfo, regionSumLineInfo, entropicLineInfo, modularLineInfo, parityLineInfo, zipperInfo, nabnerInfo } from "./element/lines";
+import { consecutiveInfo, disjointGroupsInfo, diagonalInfo, knightInfo, kingInfo, antiXInfo, antiVInfo, selfTaxicabInfo, taxicabInfo, chaosConstructionInfo } from "./element/toggles";
+import { colIndexInfo, evenInfo, maxInfo, minInfo, oddInfo, rowIndexInfo } from "./element/region";
 import { quadrupleInfo } from "./element/quadruple";
 import { differenceInfo, ratioInfo, xvInfo, sandwichInfo, skyscraperInfo, xsumInfo, littleKillerInfo } from "./element/positionNumbers";
 import type { schema } from "@sudoku-studio/schema";
 import { gridRegionInfo, gridInfo } from "./element/basic";
 import { arrowInfo } from "./element/arrow";
 import { killerInfo } from "./element/killer";
+import { extraRegionInfo } from "./element/extraRegion";
 import { cloneInfo } from "./element/clone";
 
 export const ELEMENT_HANDLERS = {
@@ -32,16 +33,25 @@ export const ELEMENT_HANDLERS = {
     ['palindrome']: palindromeInfo,
     ['whisper']: germanWhisperInfo,
     ['dutchWhisper']: dutchWhisperInfo,
+    ['entropicLine']: entropicLineInfo,
+    ['modularLine']: modularLineInfo,
+    ['parityLine']: parityLineInfo,
     ['renban']: renbanInfo,
+    ['regionSumLine']: regionSumLineInfo,
+    ['zipper']: zipperInfo,
+    ['nabner']: nabnerInfo,
     ['arrow']: arrowInfo,
 
     ['min']: minInfo,
     ['max']: maxInfo,
     ['odd']: oddInfo,
     ['even']: evenInfo,
+    ['rowIndex']: rowIndexInfo,
+    ['colIndex']: colIndexInfo,
 
     ['quadruple']: quadrupleInfo,
     ['killer']: killerInfo,
+    ['extraRegion']: extraRegionInfo,
     ['clone']: cloneInfo,
 
     ['difference']: differenceInfo,
@@ -61,6 +71,8 @@ export const ELEMENT_HANDLERS = {
     ['antiX']: antiXInfo,
     ['antiV']: antiVInfo,
     ['selfTaxicab']: selfTaxicabInfo,
+    ['taxicab']: taxicabInfo,
+    ['chaosConstruction']: chaosConstructionInfo,
 } as Record<schema.ElementType, ElementInfo>;
 
 export function createElement<E extends schema.Element>(type: E['type'], value?: E['value']): E {
@@ -1,5 +1,5 @@
 import type { Grid, Coord, Geometry, Idx } from "@sudoku-studio/schema";
-import { click2svgCoord, cellCoord2CellIdx, svgCoord2cellCoord, distSq, cellLine } from "@sudoku-studio/board-utils";
+import { click2svgCoord, cellCoord2CellIdx, svgCoord2cellCoord, distSq, cellLine, isCellActive } from "@sudoku-studio/board-utils";
 import { getTouchPosition } from "./inputHandler";
 
 export type CellDragTapEvent = {
@@ -8,6 +8,14 @@ export type CellDragTapEvent = {
     grid: Grid,
 };
 
+/**
+ * Returns the cell at SVG_COORD, or null if it is outside the grid or inactive (between sub-grids).
+ */
+function getActiveCellCoord(svgCoord: Coord<Geometry.SVG>, grid: Grid, conservative: boolean): null | Coord<Geometry.CELL> {
+    const coord = svgCoord2cellCoord(svgCoord, grid, conservative);
+    return null != coord && isCellActive(coord, grid) ? coord : null;
+}
+
 export class AdjacentCellPointerHandler {
     onTap: null | ((event: CellDragTapEvent) => void) = null;
     onDoubleTap: null | ((event: CellDragTapEvent) => void) = null;
@@ -128,7 +136,7 @@ export class AdjacentCellPointerHandler {
 
     private _handleClick(event: MouseEvent | TouchEvent, svgCoord: Coord<typeof Geometry.SVG>, grid: Grid, _svg: SVGSVGElement): void {
         if (this._isTap) {
-            const coord = svgCoord2cellCoord(svgCoord, grid, false);
+            const coord = getActiveCellCoord(svgCoord, grid, false);
             if (null != coord) {
                 this.onTap && this.onTap({ event, coord, grid });
             }
@@ -136,7 +144,7 @@ export class AdjacentCellPointerHandler {
     }
 
     private _handleDoubleClick(event: MouseEvent | TouchEvent, svgCoord: Coord<typeof Geometry.SVG>, grid: Grid, _svg: SVGSVGElement): void {
-        const coord = svgCoord2cellCoord(svgCoord, grid, false);
+        const coord = getActiveCellCoord(svgCoord, grid, false);
         if (null != coord) {
             this.onDoubleTap && this.onDoubleTap({ event, coord, grid });
         }
@@ -148,6 +156,7 @@ export class AdjacentCellPointerHandler {
         // Interpolate if mouse jumped cells within the board.
         if (this._interpolateBetweenCells && null != this._prevPos && 1 < distSq(this._prevPos, pos)) {
             for (const coord of cellLine(this._prevPos, pos, grid)) {
+                if (!isCellActive(coord, grid)) continue;
                 this.onDrag && this.onDrag({ event, coord, grid });
                 this._prevCell = cellCoord2CellIdx(coord, grid);
             }
@@ -157,7 +166,7 @@ export class AdjacentCellPointerHandler {
         // Otherwise select the current cell.
         else {
             const isFirstClick = null == this._prevPos;
-            const coord = svgCoord2cellCoord(pos, grid, !isFirstClick);
+            const coord = getActiveCellCoord(pos, grid, !isFirstClick);
             if (null != coord) {
                 this._prevPos = pos;
                 const currentCellIndex = cellCoord2CellIdx(coord, grid);
@@ -0,0 +1,154 @@
+import { boardRepr, cellCoord2CellIdx } from "@sudoku-studio/board-utils";
+import type { Geometry, Grid, Idx, IdxBitset } from "@sudoku-studio/schema";
+import type { Diff, StateRef } from "@sudoku-studio/state-manager";
+import { pushHistory } from "../history";
+import { userCursorIsShownState, userSelectState } from "../user";
+import { AdjacentCellPointerHandler, CellDragTapEvent } from "./adjacentCellPointerHandler";
+import type { InputHandler } from "./inputHandler";
+
+export type CageInputHandlerOptions = {
+    /** Path from each cage to its cells bitset. */
+    cellsPath: string[],
+    /** Handles a key press for the current cage, returns true if it was used. */
+    onKeydown?: null | ((cageRef: StateRef, event: KeyboardEvent) => boolean),
+    /** Handles a digit pad click for the current cage, returns true if it was used. */
+    onPadClick?: null | ((cageRef: StateRef, value: string) => boolean),
+};
+
+export function getCageInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement, options: CageInputHandlerOptions): InputHandler {
+    const { cellsPath, onKeydown, onPadClick } = options;
+
+    const pointerHandler = new AdjacentCellPointerHandler(false);
+
+    let cageRef: null | StateRef = null;
+
+    enum Mode {
+        DYNAMIC,
+        ADDING,
+        REMOVING,
+    };
+    let mode = Mode.DYNAMIC;
+
+    function getExistingCageAtIdx(idx: Idx<Geometry.CELL>): null | string {
+        for (const cageId of Object.keys(stateRef.get<Record<string, unknown>>() || {})) {
+            const cells = stateRef.ref(cageId, ...cellsPath).get<IdxBitset<Geometry.CELL>>();
+            if (cells && cells[idx]) {
+                return cageId;
+            }
+        }
+        return null;
+    }
+
+    function startDrag(idx: Idx<Geometry.CELL>): void {
+        if (Mode.DYNAMIC === mode) {
+            const cageId = getExistingCageAtIdx(idx);
+            cageRef = stateRef.ref(cageId || boardRepr.makeUid());
+            mode = null == cageId ? Mode.ADDING : Mode.REMOVING;
+        }
+    }
+
+    const fullDiff: Diff = {
+        redo: {},
+        undo: {},
+    };
+
+    function handle(event: CellDragTapEvent) {
+        const { coord, grid } = event;
+        const idx = cellCoord2CellIdx(coord, grid);
+
+        if (Mode.DYNAMIC === mode) {
+            startDrag(idx);
+        }
+        if (null == cageRef) throw 'UNREACHABLE';
+
+        const diff = cageRef.ref(...cellsPath, `${idx}`).replace(true);
+        if (null != diff) {
+            Object.assign(fullDiff.redo, diff.redo);
+            Object.assign(fullDiff.undo, diff.undo);
+        }
+    }
+
+    pointerHandler.onDragStart = (event: CellDragTapEvent) => {
+        mode = Mode.DYNAMIC;
+        handle(event);
+    };
+
+    pointerHandler.onDrag = (event: CellDragTapEvent) => {
+        mode = Mode.ADDING;
+        handle(event);
+    };
+
+    pointerHandler.onDragEnd = () => {
+        pushHistory(fullDiff);
+        fullDiff.redo = {};
+        fullDiff.undo = {};
+    };
+
+    pointerHandler.onTap = (event: CellDragTapEvent) => {
+        if (Mode.REMOVING !== mode) return;
+        // If we are still in the removing mode, delete the cage.
+
+        const { coord, grid } = event;
+        const idx = cellCoord2CellIdx(coord, grid);
+
+        const cageId = getExistingCageAtIdx(idx);
+        if (null != cageId) {
+            const diff = stateRef.ref(cageId).replace(null);
+            pushHistory(diff);
+        }
+    };
+
+    return {
+        load(): void {
+            // TODO: not really that great of a way of doing this.
+            userSelectState.replace(null);
+            userCursorIsShownState.replace(false);
+        },
+        unload(): void {
+            pointerHandler.mouseUp();
+        },
+
+        blur(_event: FocusEvent): void {
+        },
+
+        keydown(event: KeyboardEvent): void {
+            if (null != cageRef && null != onKeydown && onKeydown(cageRef, event)) {
+                event.stopImmediatePropagation();
+                event.preventDefault();
+            }
+        },
+        keyup(_event: KeyboardEvent): void {
+        },
+        padClick(event: MouseEvent & { currentTarget: EventTarget & HTMLButtonElement }): void {
+            if (null != cageRef && null != onPadClick && onPadClick(cageRef, event.currentTarget.value)) {
+                event.stopImmediatePropagation();
+                event.preventDefault();
+            }
+        },
+
+        mouseDown(event: MouseEvent): void {
+            pointerHandler.mouseDown(event, grid, svg);
+        },
+        mouseMove(event: MouseEvent): void {
+            pointerHandler.mouseMove(event, grid, svg);
+        },
+        mouseUp(_event: MouseEvent): void {
+            pointerHandler.mouseUp();
+        },
+        leave(event: MouseEvent): void {
+            pointerHandler.leave(event, grid, svg);
+        },
+        click(event: MouseEvent): void {
+            pointerHandler.click(event, grid, svg);
+        },
+        touchDown(event: TouchEvent): void {
+            pointerHandler.touchDown(event, grid, svg);
+        },
+        touchMove(event: TouchEvent): void {
+            pointerHandler.touchMove(event, grid, svg);
+        },
+        touchUp(event: TouchEvent): void {
+            pointerHandler.touchUp(event, grid, svg);
+        },
+    } as const;
+}
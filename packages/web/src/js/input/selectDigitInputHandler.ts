@@ -1,7 +1,7 @@
-import { idxMapToKeysArray, cellCoord2CellIdx, cellIdx2cellCoord } from "@sudoku-studio/board-utils";
+import { idxMapToKeysArray, cellCoord2CellIdx, cellIdx2cellCoord, isDigitInSet } from "@sudoku-studio/board-utils";
 import type { Geometry, Grid, Idx, IdxBitset } from "@sudoku-studio/schema";
 import type { StateRef, Update } from "@sudoku-studio/state-manager";
-import { boardState, getCellValue, getDigits } from "../board";
+import { boardState, getBoardDigitSet, getCellValue, getDigits } from "../board";
 import { pushHistory } from "../history";
 import { MARK_TYPES, userToolState, userSelectState, userState, userPrevToolState, userCursorIsShownState, userCursorIndexState, getUserToolStateName } from "../user";
 import { AdjacentCellPointerHandler, CellDragTapEvent } from "./adjacentCellPointerHandler";
@@ -15,10 +15,12 @@ export type DigitInputHandlerOptions = {
     blockedByFilled: boolean,
     nextMode: string,
     digitMapping?: null | (string | number)[],
+    /** Ignore digits outside of the board's digit set. */
+    restrictToDigitSet?: boolean,
 };
 
 export function getSelectDigitInputHandler(stateRef: StateRef, grid: Grid, svg: SVGSVGElement, options: DigitInputHandlerOptions): InputHandler {
-    const { multipleDigits, blockedByGivens, blockedByFilled, digitMapping, nextMode } = options;
+    const { multipleDigits, blockedByGivens, blockedByFilled, digitMapping, nextMode, restrictToDigitSet } = options;
 
     const DELETE_ORDER = [ 'filled', 'corner', 'center', 'colors' ];
 
@@ -29,6 +31,7 @@ export function getSelectDigitInputHandler(stateRef: StateRef, grid: Grid, svg:
             digit = digitMapping[digit];
 
         if (undefined === digit) return false;
+        if (restrictToDigitSet && 'number' === typeof digit && !isDigitInSet(digit, getBoardDigitSet())) return true;
 
         const shouldDelegate = onDigitInputHelper(stateRef, digit);
         if (shouldDelegate) {
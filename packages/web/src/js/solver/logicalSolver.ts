@@ -0,0 +1,72 @@
+import * as Comlink from "comlink";
+
+import type { DifficultyRating, Geometry, IdxMap, LogicalSolver as LogicalSolverInterface, LogicalStep, schema, Solver } from "@sudoku-studio/schema";
+import type LogicalSolverWorkerNamespace from "./logicalSolverWorker";
+
+const getSolverWorker = (() => {
+    let solverWorker: null | Comlink.Remote<typeof LogicalSolverWorkerNamespace> = null;
+    return function() {
+        if (null == solverWorker) {
+            solverWorker = Comlink.wrap<typeof LogicalSolverWorkerNamespace>(new Worker(__replace.WORKER_LOGICALSOLVER_SCRIPT));
+        }
+        return solverWorker;
+    }
+})();
+
+export const LogicalSolver: LogicalSolverInterface = {
+    cantAttempt(board: schema.Board): Promise<null | string> {
+        return getSolverWorker().cantAttempt(board);
+    },
+
+    getNextHint(board: schema.Board,
+        onComplete: (step: null | LogicalStep) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .getNextHintAsync(board, Comlink.proxy(onComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+
+    solveLogical(board: schema.Board,
+        onStepFoundOrComplete: (step: null | LogicalStep) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .solveLogicalAsync(board, Comlink.proxy(onStepFoundOrComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+
+    rateDifficulty(board: schema.Board,
+        onComplete: (rating: DifficultyRating) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .rateDifficultyAsync(board, Comlink.proxy(onComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+};
+
+/** Pure TypeScript backtracking backend, run in the logical solver's worker. */
+export const BacktrackSolver: Solver = {
+    cantAttempt(board: schema.Board): Promise<null | string> {
+        return getSolverWorker().cantAttempt(board);
+    },
+
+    solve(board: schema.Board, maxSolutions: number,
+        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .solveBacktrackingAsync(board, maxSolutions, Comlink.proxy(onSolutionFoundOrComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+
+    solveTrueCandidates(board: schema.Board,
+        onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .solveTrueCandidatesBacktrackingAsync(board, Comlink.proxy(onCandidatesFoundOrComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+};
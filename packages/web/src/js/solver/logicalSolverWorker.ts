@@ -0,0 +1,112 @@
+import * as Comlink from "comlink";
+import type { CancellationToken } from "@sudoku-studio/solver-logical";
+import { cantAttempt, getNextHint, rateDifficulty, solveBacktracking, solveLogical, solveTrueCandidatesBacktracking } from "@sudoku-studio/solver-logical";
+import type { DifficultyRating, Geometry, IdxMap, LogicalStep, schema } from "@sudoku-studio/schema";
+import { boardRepr } from "@sudoku-studio/board-utils";
+
+const CANCELLATION_TABLE: Record<string, CancellationToken> = {};
+
+function getNextHintAsync(board: schema.Board,
+    onComplete: (step: null | LogicalStep) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    getNextHint(board, onComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+        });
+
+    return taskId;
+}
+
+function solveLogicalAsync(board: schema.Board,
+    onStepFoundOrComplete: (step: null | LogicalStep) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    console.log(`[${taskId}] Starting.`);
+
+    solveLogical(board, onStepFoundOrComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+            console.log(`[${taskId}] Finished.`);
+        });
+
+    return taskId;
+}
+
+function rateDifficultyAsync(board: schema.Board,
+    onComplete: (rating: DifficultyRating) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    rateDifficulty(board, onComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+        });
+
+    return taskId;
+}
+
+function solveBacktrackingAsync(board: schema.Board, maxSolutions: number,
+    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    console.log(`[${taskId}] Starting.`);
+
+    solveBacktracking(board, maxSolutions, onSolutionFoundOrComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+            console.log(`[${taskId}] Finished.`);
+        });
+
+    return taskId;
+}
+
+function solveTrueCandidatesBacktrackingAsync(board: schema.Board,
+    onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    solveTrueCandidatesBacktracking(board, onCandidatesFoundOrComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+        });
+
+    return taskId;
+}
+
+function cancel(taskId: string): boolean {
+    if (taskId in CANCELLATION_TABLE) {
+        console.log(`Cancelling ${taskId}.`);
+        CANCELLATION_TABLE[taskId].cancelled = true;
+        delete CANCELLATION_TABLE[taskId];
+        return true;
+    }
+    return false;
+}
+
+const DEFAULT = {
+    cantAttempt,
+    getNextHintAsync,
+    solveLogicalAsync,
+    rateDifficultyAsync,
+    solveBacktrackingAsync,
+    solveTrueCandidatesBacktrackingAsync,
+    cancel,
+} as const;
+
+export default DEFAULT;
+
+Comlink.expose(DEFAULT);
@@ -1,6 +1,7 @@
 import * as Comlink from "comlink";
 
-import type { Geometry, IdxMap, schema, Solver } from "@sudoku-studio/schema";
+import type { Geometry, IdxMap, SatSolver as SatSolverInterface, schema } from "@sudoku-studio/schema";
+import type { Update } from "@sudoku-studio/state-manager";
 import type IlpSolverWorkerNamespace from "./satSolverWorker";
 
 const getSolverWorker = (() => {
@@ -13,13 +14,13 @@ const getSolverWorker = (() => {
     }
 })();
 
-export const SatSolver: Solver = {
+export const SatSolver: SatSolverInterface = {
     cantAttempt(board: schema.Board): Promise<null | string> {
         return getSolverWorker().cantAttempt(board);
     },
 
     solve(board: schema.Board, maxSolutions: number,
-        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>
+        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>
     {
         const taskIdPromise = getSolverWorker()
             .solveAsync(board, maxSolutions, Comlink.proxy(onSolutionFoundOrComplete));
@@ -28,11 +29,61 @@ export const SatSolver: Solver = {
     },
 
     solveTrueCandidates(board: schema.Board,
-        onComplete: (solution: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): () => Promise<boolean>
+        onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): () => Promise<boolean>
     {
         const taskIdPromise = getSolverWorker()
-            .solveTrueCandidatesAsync(board, Comlink.proxy(onComplete));
+            .solveTrueCandidatesAsync(board, Comlink.proxy(onCandidatesFoundOrComplete));
 
         return () => taskIdPromise.then(getSolverWorker().cancel);
-    }
+    },
+
+    minimizeGivens(board: schema.Board, symmetric: boolean,
+        onProgress: (checked: number, total: number) => void,
+        onComplete: (givens: null | IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .minimizeGivensAsync(board, symmetric, Comlink.proxy(onProgress), Comlink.proxy(onComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+
+    generate(board: schema.Board, seed: number,
+        onProgress: (numGivens: number) => void,
+        onComplete: (board: null | schema.Board) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .generateAsync(board, seed, Comlink.proxy(onProgress), Comlink.proxy(onComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+
+    toDimacs(board: schema.Board): Promise<string> {
+        return getSolverWorker().toDimacs(board);
+    },
+
+    startSession(board: schema.Board): Promise<void> {
+        return getSolverWorker().startSession(board);
+    },
+
+    updateSession(update: Update): Promise<void> {
+        return getSolverWorker().updateSession(update);
+    },
+
+    solveSession(maxSolutions: number,
+        onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .solveSessionAsync(maxSolutions, Comlink.proxy(onSolutionFoundOrComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
+
+    explainUnsat(board: schema.Board,
+        onComplete: (elementIds: null | string[]) => void): () => Promise<boolean>
+    {
+        const taskIdPromise = getSolverWorker()
+            .explainUnsatAsync(board, Comlink.proxy(onComplete));
+
+        return () => taskIdPromise.then(getSolverWorker().cancel);
+    },
 };
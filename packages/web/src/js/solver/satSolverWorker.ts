@@ -1,13 +1,14 @@
 import * as Comlink from "comlink";
 import type { CancellationToken } from "@sudoku-studio/solver-sat";
-import { cantAttempt, solve, solveTrueCandidates } from "@sudoku-studio/solver-sat";
+import { cantAttempt, explainUnsat, generate, minimizeGivens, solve, solveTrueCandidates, SolverSession, toDimacs } from "@sudoku-studio/solver-sat";
 import type { Geometry, IdxMap, schema } from "@sudoku-studio/schema";
 import { boardRepr } from "@sudoku-studio/board-utils";
+import { StateManager, Update } from "@sudoku-studio/state-manager";
 
 const CANCELLATION_TABLE: Record<string, CancellationToken> = {};
 
 function solveAsync(board: schema.Board, maxSolutions: number,
-    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>) => void): string
+    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void): string
 {
     const taskId = boardRepr.makeUid();
     const token: CancellationToken = {};
@@ -25,7 +26,7 @@ function solveAsync(board: schema.Board, maxSolutions: number,
 }
 
 function solveTrueCandidatesAsync(board: schema.Board,
-    onComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): string
+    onCandidatesFoundOrComplete: (candidates: null | IdxMap<Geometry.CELL, Map<number, number>>) => void): string
 {
     const taskId = boardRepr.makeUid();
     const token: CancellationToken = {};
@@ -33,7 +34,7 @@ function solveTrueCandidatesAsync(board: schema.Board,
 
     console.log(`[${taskId}] Starting.`);
 
-    solveTrueCandidates(board, onComplete, token)
+    solveTrueCandidates(board, onCandidatesFoundOrComplete, token)
         .finally(() => {
             delete CANCELLATION_TABLE[taskId];
             console.log(`[${taskId}] Finished.`);
@@ -42,6 +43,127 @@ function solveTrueCandidatesAsync(board: schema.Board,
     return taskId;
 }
 
+function minimizeGivensAsync(board: schema.Board, symmetric: boolean,
+    onProgress: (checked: number, total: number) => void,
+    onComplete: (givens: null | IdxMap<Geometry.CELL, number>) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    console.log(`[${taskId}] Starting.`);
+
+    minimizeGivens(board, onComplete, { symmetric, onProgress }, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+            console.log(`[${taskId}] Finished.`);
+        });
+
+    return taskId;
+}
+
+function generateAsync(board: schema.Board, seed: number,
+    onProgress: (numGivens: number) => void,
+    onComplete: (board: null | schema.Board) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    console.log(`[${taskId}] Starting.`);
+
+    generate(board, onComplete, { seed, onProgress }, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+            console.log(`[${taskId}] Finished.`);
+        });
+
+    return taskId;
+}
+
+function explainUnsatAsync(board: schema.Board,
+    onComplete: (elementIds: null | string[]) => void): string
+{
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    console.log(`[${taskId}] Starting.`);
+
+    explainUnsat(board, onComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+            console.log(`[${taskId}] Finished.`);
+        });
+
+    return taskId;
+}
+
+// Copy of the board being edited and its incremental solver.
+let sessionState: null | StateManager = null;
+let session: null | SolverSession = null;
+// Solves using the current session, which must finish before it is freed.
+let sessionSolves: Promise<unknown> = Promise.resolve();
+
+async function startSession(board: schema.Board): Promise<void> {
+    sessionState = new StateManager();
+    sessionState.update({ grid: board.grid, meta: board.meta, elements: board.elements });
+
+    const oldSession = session;
+    session = await SolverSession.create(board);
+    if (null != oldSession) {
+        sessionSolves.finally(() => oldSession.free());
+    }
+}
+
+/**
+ * Applies UPDATE (from a board Diff) to the session, re-encoding only the changed elements.
+ */
+async function updateSession(update: Update): Promise<void> {
+    if (null == sessionState || null == session) throw Error('Session not started.');
+
+    const oldElements = { ...sessionState.get<schema.Board['elements']>('elements') };
+    sessionState.update(update);
+    const board = sessionState.get<schema.Board>()!;
+
+    const elements: Record<string, null | schema.Element> = {};
+    for (const path of Object.keys(update)) {
+        const [ key, elementId ] = path.split('/');
+        if ('elements' !== key || null == elementId) {
+            // Grid or digits changed, need to start over.
+            return startSession(board);
+        }
+        elements[elementId] = board.elements[elementId] || null;
+        const type = (elements[elementId] || oldElements[elementId])?.type;
+        if ('gridRegion' === type || 'chaosConstruction' === type) {
+            // Other elements, e.g. region sum lines, may depend on the regions, or whether they are solved for.
+            return startSession(board);
+        }
+    }
+    session.update(elements);
+}
+
+function solveSessionAsync(maxSolutions: number,
+    onSolutionFoundOrComplete: (solution: null | IdxMap<Geometry.CELL, number>, regions?: IdxMap<Geometry.CELL, number>) => void): string
+{
+    if (null == session) throw Error('Session not started.');
+
+    const taskId = boardRepr.makeUid();
+    const token: CancellationToken = {};
+    CANCELLATION_TABLE[taskId] = token;
+
+    console.log(`[${taskId}] Starting.`);
+
+    const solvePromise = session.solve(maxSolutions, onSolutionFoundOrComplete, token)
+        .finally(() => {
+            delete CANCELLATION_TABLE[taskId];
+            console.log(`[${taskId}] Finished.`);
+        });
+    sessionSolves = Promise.all([ sessionSolves, solvePromise.catch(() => false) ]);
+
+    return taskId;
+}
+
 function cancel(taskId: string): boolean {
     if (taskId in CANCELLATION_TABLE) {
         console.log(`Cancelling ${taskId}.`);
@@ -56,6 +178,13 @@ const DEFAULT = {
     cantAttempt,
     solveAsync,
     solveTrueCandidatesAsync,
+    minimizeGivensAsync,
+    generateAsync,
+    explainUnsatAsync,
+    toDimacs,
+    startSession,
+    updateSession,
+    solveSessionAsync,
     cancel,
 } as const;
 
@@ -0,0 +1,95 @@
+import type { schema, Solver } from "@sudoku-studio/schema";
+import { solutionToString } from "@sudoku-studio/board-utils";
+import { SatSolver } from "./satSolver";
+import { BacktrackSolver } from "./logicalSolver";
+
+export type SolverBackend = {
+    name: string,
+    solver: Solver,
+};
+
+/** Backends which can find solutions and true candidates, keyed by id. */
+export const SOLVER_BACKENDS: Record<string, SolverBackend> = {
+    sat: { name: 'SAT', solver: SatSolver },
+    backtrack: { name: 'Backtracking', solver: BacktrackSolver },
+};
+
+export const DEFAULT_SOLVER_BACKEND = 'sat';
+
+export type BackendResult = {
+    id: string,
+    cantAttempt: null | string,
+    /** Solutions as strings, sorted. */
+    solutions: string[],
+    time: number,
+};
+
+/**
+ * Runs each backend in turn on BOARD, finding up to MAX_SOLUTIONS with each.
+ */
+export function compareBackends(board: schema.Board, maxSolutions: number,
+    onComplete: (results: BackendResult[]) => void): () => Promise<boolean>
+{
+    const ids = Object.keys(SOLVER_BACKENDS);
+    const results: BackendResult[] = [];
+    let cancelled = false;
+    let cancelFn: null | (() => Promise<boolean>) = null;
+
+    async function runNext(): Promise<void> {
+        if (ids.length <= results.length) {
+            onComplete(results);
+            return;
+        }
+
+        const id = ids[results.length];
+        const { solver } = SOLVER_BACKENDS[id];
+        const cantAttempt = await solver.cantAttempt(board);
+        if (cancelled) return;
+
+        const result: BackendResult = { id, cantAttempt, solutions: [], time: 0 };
+        results.push(result);
+        if (null != cantAttempt) {
+            await runNext();
+            return;
+        }
+
+        const START = Date.now();
+        cancelFn = solver.solve(board, maxSolutions, solution => {
+            if (null == solution) {
+                result.time = Date.now() - START;
+                result.solutions.sort();
+                cancelFn = null;
+                runNext();
+            }
+            else {
+                result.solutions.push(solutionToString(solution, board.grid));
+            }
+        });
+    }
+    runNext();
+
+    return async () => {
+        cancelled = true;
+        return null == cancelFn || cancelFn();
+    };
+}
+
+/**
+ * Summarizes whether the backends which could attempt the board agree. When there are at least
+ * MAX_SOLUTIONS solutions, backends may find different ones, so only the counts are compared.
+ */
+export function describeComparison(results: BackendResult[], maxSolutions: number): string {
+    const attempted = results.filter(({ cantAttempt }) => null == cantAttempt);
+    const timings = attempted
+        .map(({ id, solutions, time }) => `${SOLVER_BACKENDS[id].name} ${solutions.length} in ${time} ms`)
+        .join(', ');
+    if (attempted.length < 2) {
+        return `Nothing to compare: ${timings || 'no backend can solve this board'}.`;
+    }
+
+    const [ first, ...rest ] = attempted;
+    const agree = rest.every(({ solutions }) => maxSolutions <= first.solutions.length
+        ? maxSolutions <= solutions.length
+        : solutions.join() === first.solutions.join());
+    return `Backends ${agree ? 'agree' : 'disagree'}: ${timings}.`;
+}
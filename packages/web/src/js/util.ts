@@ -10,3 +10,15 @@ export function makeA1Column(x: number) {
     }
     return out.join('');
 }
+
+/**
+ * Prompts the browser to save CONTENTS as a file named FILENAME.
+ */
+export function downloadFile(filename: string, contents: string, type: string = 'text/plain'): void {
+    const url = URL.createObjectURL(new Blob([ contents ], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}